@@ -0,0 +1,122 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+
+import { Log } from "../controller/charts/parsers/capacity"
+import { HostMap } from "../controller/charts/LogRecord"
+import BaseChart, { BaseChartProps, TimeRange } from "./Chart"
+
+type Props = TimeRange & {
+  /** Map from node type to the summed records for that node type */
+  logs: HostMap<Log>
+}
+
+type State = {
+  charts: BaseChartProps[]
+}
+
+/** The resource classes we chart, and how to extract (capacity, free) from a `Log` */
+const resources = [
+  { label: "GPU", format: "count" as const, capacity: (_: Log) => _.gpuCapacity, free: (_: Log) => _.gpuFree },
+  { label: "CPU", format: "count" as const, capacity: (_: Log) => _.cpuCapacity, free: (_: Log) => _.cpuFree },
+  {
+    label: "Memory",
+    format: "memory" as const,
+    // the "memory" formatter expects KiB
+    capacity: (_: Log) => _.memoryCapacity / 1024,
+    free: (_: Log) => _.memoryFree / 1024,
+  },
+]
+
+type Resource = typeof resources[number]
+
+export default class CapacityChart extends React.PureComponent<Props, State> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = {
+      charts: this.charts(props),
+    }
+  }
+
+  /** Format a Victory datum for the Free time series */
+  private datumForFree(resource: Resource, line: Log) {
+    return {
+      name: line.nodeType + " Free",
+      x: line.timestamp - this.props.minTime,
+      y: resource.free(line),
+    }
+  }
+
+  /** Format a Victory datum for the Capacity time series */
+  private datumForCapacity(resource: Resource, line: Log) {
+    return {
+      name: line.nodeType + " Capacity",
+      x: line.timestamp - this.props.minTime,
+      y: resource.capacity(line),
+    }
+  }
+
+  /** Create a new chart for the given node type and resource class */
+  private newChart(nodeType: string, lines: Log[], resource: Resource): BaseChartProps {
+    const series = [
+      {
+        impl: "ChartArea" as const,
+        stroke: BaseChart.colors[1],
+        data: lines.map((_) => this.datumForFree(resource, _)),
+      },
+      {
+        impl: "ChartDashedLine" as const,
+        stroke: BaseChart.colors[3],
+        data: lines.map((_) => this.datumForCapacity(resource, _)),
+      },
+    ]
+
+    // normalize against the capacity, so that both series share one y axis
+    const data = BaseChart.normalize(series[1], resource.format)
+
+    return {
+      key: `${nodeType}-${resource.label}`,
+      title: `${nodeType} ${resource.label}`,
+      desc: `Chart showing free versus capacity ${resource.label} over time for nodes of type ${nodeType}`,
+      series,
+      yAxes: [
+        {
+          label: resource.label,
+          format: resource.format,
+          y: data.y,
+          tickFormat: data.tickFormat,
+          tickValues: data.tickValues,
+          style: BaseChart.twoAxisStyle[0],
+        },
+        undefined,
+      ],
+    }
+  }
+
+  /** @return one chart per (node type, resource class), skipping resource classes that a node type lacks */
+  private charts(props: Props): BaseChartProps[] {
+    return Object.entries(props.logs).flatMap(([nodeType, lines]) =>
+      resources
+        .filter((resource) => lines.some((_) => resource.capacity(_) > 0))
+        .map((resource) => this.newChart(nodeType, lines, resource))
+    )
+  }
+
+  public render() {
+    return <BaseChart charts={this.state.charts} minTime={this.props.minTime} maxTime={this.props.maxTime} />
+  }
+}
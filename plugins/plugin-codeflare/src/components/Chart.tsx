@@ -40,9 +40,12 @@ import {
   createContainer,
 } from "@patternfly/react-charts"
 
+import downsample from "../controller/charts/downsample"
+import { ChartGridContext, ChartGridCursorContext } from "./ChartGrid"
+
 import "../../web/scss/components/Dashboard/Charts.scss"
 
-type Format = "celsius" | "percentage" | "timestamp" | "memory"
+type Format = "celsius" | "percentage" | "timestamp" | "memory" | "count"
 
 class MyTooltipLabel extends React.PureComponent<ChartLabelProps> {
   public render() {
@@ -110,6 +113,12 @@ export type Series = {
   stroke: string
   fill?: string
   data: { name?: string; x: number; y: number }[]
+
+  /** Normalization for a series that does not share the scale of its y axis */
+  y?: ChartAreaProps["y"]
+
+  /** Tooltip format for a series that does not share the format of its y axis */
+  format?: Format
 }
 
 export type BaseChartProps = {
@@ -125,6 +134,9 @@ export type BaseChartProps = {
   /** The time series for this chart */
   series: Series[]
 
+  /** Optional controls to display alongside this chart */
+  toolbar?: React.ReactNode
+
   /** The y axes for this chart */
   yAxes: (
     | undefined
@@ -146,15 +158,72 @@ type Props = TimeRange & {
   charts: BaseChartProps[]
 }
 
+type CrosshairProps = {
+  /** The visible time range of the chart beneath, relativized to `minTime` */
+  min: number
+  max: number
+
+  /** Timestamps in the chart beneath are relativized to this */
+  minTime: number
+}
+
+/**
+ * The shared crosshair, drawn as an overlay on top of a chart rather
+ * than as a series of the chart, so that moving the mouse re-renders
+ * only this overlay.
+ */
+class Crosshair extends React.PureComponent<CrosshairProps> {
+  public static contextType = ChartGridCursorContext
+  public declare context: React.ContextType<typeof ChartGridCursorContext>
+
+  public render() {
+    const cursor = this.context
+    if (cursor !== undefined) {
+      const { min, max, minTime } = this.props
+      const x = cursor - minTime
+
+      if (x >= min && x <= max && max > min) {
+        const { width, height } = BaseChart.dimensions
+        const { top, bottom, left, right } = BaseChart.padding
+        const px = left + ((x - min) / (max - min)) * (width - left - right)
+
+        return (
+          <svg className="codeflare-chart-crosshair" viewBox={`0 0 ${width} ${height}`}>
+            <line x1={px} x2={px} y1={top} y2={height - bottom} />
+          </svg>
+        )
+      }
+    }
+
+    return null
+  }
+}
+
 export default class BaseChart extends React.PureComponent<Props> {
+  /** We share a zoom window and crosshair with the other charts of our `ChartGrid` */
+  public static contextType = ChartGridContext
+  public declare context: React.ContextType<typeof ChartGridContext>
+
+  /** The Victory names of our overlays, i.e. any annotations, start with this */
+  private static readonly overlayName = "codeflare-overlay"
+
+  /** Ignore drag selections shorter than this, as they are probably just clicks */
+  private static readonly minZoomMillis = 1000
   private static fontSize = 9
   private static tickLabelFontSize = BaseChart.fontSize - 1
 
-  private static readonly dimensions = {
+  public static readonly dimensions = {
     width: 140,
     height: 160,
   }
 
+  /**
+   * We downsample each series to at most two points per bucket, with
+   * this many buckets spanning the time range of the chart. The
+   * components keep the full data, e.g. for export.
+   */
+  private static readonly nBuckets = 200
+
   public static readonly padding = {
     bottom: BaseChart.fontSize * 1.5,
     top: BaseChart.fontSize * 5,
@@ -220,6 +289,10 @@ export default class BaseChart extends React.PureComponent<Props> {
     return { fontSize, fontStyle, fontWeight, fill }
   }
 
+  private static annotationLabelStyle(fill: string): ChartLabelProps["style"] {
+    return { fontSize: BaseChart.tickLabelFontSize - 2, fontFamily: BaseChart.fontFamily, fill }
+  }
+
   private static titleStyle(
     fontSize = BaseChart.fontSize,
     fill = "var(--color-text-01)",
@@ -231,6 +304,8 @@ export default class BaseChart extends React.PureComponent<Props> {
 
   private readonly flyoutStyle = { fillOpacity: 0.825, fill: "var(--color-base06)" }
 
+  private readonly selectionStyle = { fill: "var(--color-base04)", fillOpacity: 0.2 }
+
   private axisStyleWithGrid: ChartAxisProps["style"] = Object.assign({}, BaseChart.axisStyle, {
     grid: { strokeWidth: 1, stroke: "var(--color-text-02)", strokeOpacity: 0.15 },
   })
@@ -247,38 +322,103 @@ export default class BaseChart extends React.PureComponent<Props> {
     celsius: (value: number) => ~~value + "C",
     percentage: (value: number) => value + "%",
     memory: (value: number) => prettyBytes(value * 1024),
+    count: (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1)),
     timestamp: (timestamp: number) =>
       timestamp < 60 * 3 * 1000 ? (timestamp / 1000).toFixed(0) + "s" : (timestamp / 1000 / 60).toFixed(1) + "m",
   }
 
+  /** The downsampled data of each series, and the visible range we downsampled it to */
+  private readonly downsampled = new WeakMap<Series["data"], { min: number; max: number; data: Series["data"] }>()
+
   private readonly minDomain = {
     percentage: { y: 0 },
     celsius: undefined,
     timestamp: undefined,
     memory: undefined,
+    count: { y: 0 },
   }
   private readonly maxDomain = {
     percentage: { y: 100 },
     celsius: undefined,
     timestamp: undefined,
     memory: undefined,
+    count: undefined,
+  }
+
+  /**
+   * Timestamps in the Series (i.e. datum.x values) are assumed to be
+   * relativized to the given minTimestamp.
+   *
+   * @return the visible time range, relativized in the same way
+   */
+  private get visibleRange() {
+    const { zoom } = this.context
+    const { minTime, maxTime } = zoom || this.props
+
+    return { min: minTime - this.props.minTime, max: maxTime - this.props.minTime }
   }
 
   private xAxis() {
-    // timestamps in the Series (i.e. datum.x values) are assumed to
-    // be relativized to the given minTimestamp
-    const range = this.props.maxTime - this.props.minTime
+    const { min, max } = this.visibleRange
+    const range = max - min
 
     return (
       <ChartAxis
         scale="time"
         style={BaseChart.axisStyle}
         tickFormat={BaseChart.formatters.timestamp}
-        tickValues={[range / 4, range]}
+        tickValues={[min + range / 4, max]}
       />
     )
   }
 
+  /** @return a band for each annotation that has an end, and a vertical marker for each that does not */
+  private annotations() {
+    const { annotations = [] } = this.context
+    const { min, max } = this.visibleRange
+
+    return annotations.flatMap((annotation, idx) => {
+      const start = annotation.start - this.props.minTime
+      const end = annotation.end !== undefined ? annotation.end - this.props.minTime : start
+      if (end < min || start > max) {
+        return []
+      }
+
+      const key = `${BaseChart.overlayName}-annotation-${idx}`
+      const color = annotation.kind === "phase" ? BaseChart.colors[5] : BaseChart.colors[6]
+      const props = {
+        key,
+        name: key,
+        labels: ({ datum }: { datum: { label?: string } }) => datum.label || "",
+        labelComponent: <ChartLabel style={BaseChart.annotationLabelStyle(color)} angle={-90} textAnchor="end" />,
+      }
+
+      if (end > start) {
+        return [
+          <ChartArea
+            {...props}
+            data={[
+              { x: Math.max(start, min), y: 1, label: annotation.label },
+              { x: Math.min(end, max), y: 1 },
+            ]}
+            style={this.areaStyle(color, color, 0, 0.12)}
+          />,
+        ]
+      } else {
+        return [
+          <ChartLine
+            {...props}
+            data={[
+              { x: start, y: 0 },
+              { x: start, y: 1, label: annotation.label },
+            ]}
+            style={this.lineStyle(color, "1,1", 1)}
+          />,
+        ]
+      }
+    })
+  }
+
   /** @return UI for one y axis */
   private yAxis(axis: BaseChartProps["yAxes"][number]) {
     if (axis) {
@@ -331,14 +471,14 @@ export default class BaseChart extends React.PureComponent<Props> {
    * @return UI for all of the data sets and y axes.
    */
   private dataSetsAndYAxes(chart: BaseChartProps) {
-    return chart.series.flatMap(({ impl, stroke, fill = stroke, data }, idx) => {
+    return chart.series.flatMap(({ impl, stroke, fill = stroke, data, y: seriesY }, idx) => {
       const yAxis =
         chart.yAxes[idx] ||
         chart.yAxes
           .slice(0, idx)
           .reverse()
           .find((_) => _ && _.y)
-      const y = yAxis ? yAxis.y : undefined
+      const y = seriesY || (yAxis ? yAxis.y : undefined)
 
       const props = {
         style:
@@ -347,7 +487,7 @@ export default class BaseChart extends React.PureComponent<Props> {
             : impl === "ChartLine"
             ? this.lineStyle(fill)
             : this.lineDashStyle(fill),
-        data,
+        data: this.downsample(data),
         y,
       }
 
@@ -366,6 +506,19 @@ export default class BaseChart extends React.PureComponent<Props> {
     })
   }
 
+  /** @return the given series data, downsampled to our visible range */
+  private downsample(data: Series["data"]): Series["data"] {
+    const { min, max } = this.visibleRange
+    const cached = this.downsampled.get(data)
+    if (cached && cached.min === min && cached.max === max) {
+      return cached.data
+    }
+
+    const downsampled = downsample(data, min, max, BaseChart.nBuckets)
+    this.downsampled.set(data, { min, max, data: downsampled })
+    return downsampled
+  }
+
   private areaStyle(stroke: string, fill: string, strokeWidth = 2.5, fillOpacity = 0.1): ChartAreaProps["style"] {
     return { data: { stroke, strokeWidth, fill, fillOpacity } }
   }
@@ -410,7 +563,28 @@ export default class BaseChart extends React.PureComponent<Props> {
     `${new Date(datum.x + this.props.minTime).toLocaleString()}`
 
   /** Our impl of a Victory container component; used in `containerComponent()`*/
-  private readonly CursorVoronoiContainer = createContainer("voronoi", "cursor")
+  private readonly SelectionVoronoiContainer = createContainer("voronoi", "selection")
+
+  /** The user has drag-selected a time window; zoom every chart in the grid to it */
+  private readonly onSelection = (
+    points: unknown,
+    bounds: { x: [number | Date, number | Date] } /* Victory gives Dates for time scales */
+  ) => {
+    const [a, b] = bounds.x.map((_) => Number(_) + this.props.minTime)
+    if (Math.abs(b - a) >= BaseChart.minZoomMillis) {
+      this.context.onZoom({ minTime: Math.min(a, b), maxTime: Math.max(a, b) })
+    }
+  }
+
+  /** The mouse is near the given data `points`; move the shared crosshair to them */
+  private readonly onActivated = (points: { x: number }[]) => {
+    if (points.length > 0) {
+      this.context.onCursor(points[0].x + this.props.minTime)
+    }
+  }
+
+  /** The mouse has left this chart */
+  private readonly onDeactivated = () => this.context.onCursor(undefined)
 
   /** @return a Victory "container" that will handle the mouse motion (for tooltips) for us */
   private containerComponent(chart: BaseChartProps) {
@@ -429,10 +603,22 @@ export default class BaseChart extends React.PureComponent<Props> {
       return M
     }, {} as Record<string, Format>)
 
+    chart.series.forEach(({ data, format }) => {
+      if (format && data[0].name) {
+        formatMap[data[0].name] = format
+      }
+    })
+
     return (
-      <this.CursorVoronoiContainer
+      <this.SelectionVoronoiContainer
         mouseFollowTooltips
         voronoiDimension="x"
+        voronoiBlacklist={[new RegExp("^" + BaseChart.overlayName)]}
+        onActivated={this.onActivated}
+        onDeactivated={this.onDeactivated}
+        selectionDimension="x"
+        selectionStyle={this.selectionStyle}
+        onSelection={this.onSelection}
         labels={this.getTooltipLabels.bind(this, formatMap)}
         labelComponent={
           <ChartLegendTooltip
@@ -449,19 +635,25 @@ export default class BaseChart extends React.PureComponent<Props> {
 
   /** @return the UI for the idx-th chart in the chart set of this.props.charts */
   private chart(chart: BaseChartProps, idx: number) {
+    const { min, max } = this.visibleRange
+
     return (
       <div className="codeflare-chart-container" key={idx}>
+        {chart.toolbar && <div className="codeflare-chart-toolbar">{chart.toolbar}</div>}
         <Chart
           ariaDesc={chart.desc}
           padding={BaseChart.padding}
           width={BaseChart.dimensions.width}
           height={BaseChart.dimensions.height}
           containerComponent={this.containerComponent(chart)}
+          domain={max > min ? { x: [min, max] } : undefined}
         >
           {this.title(chart)}
           {this.xAxis()}
+          {this.annotations()}
           {this.dataSetsAndYAxes(chart)}
         </Chart>
+        <Crosshair min={min} max={max} minTime={this.props.minTime} />
       </div>
     )
   }
@@ -15,7 +15,130 @@
  */
 
 import React from "react"
+import { Button } from "@patternfly/react-core"
 
-export default function ChartGrid(props: React.PropsWithChildren<unknown>) {
-  return <div className="codeflare-chart-grid flex-fill">{props.children}</div>
+import { TimeRange } from "./Chart"
+import { Annotation } from "../controller/events/annotations"
+
+/** State shared by all of the charts in one `ChartGrid` */
+export type ChartGridState = {
+  /** The time window, in absolute timestamps, that the user has zoomed into */
+  zoom?: TimeRange
+
+  /** The absolute timestamp under the mouse, in whichever chart the mouse is over */
+  cursor?: number
+}
+
+type ChartGridContextValue = Pick<ChartGridState, "zoom"> & {
+  /** Annotations to overlay on every chart in the grid */
+  annotations?: Annotation[]
+
+  /** Zoom every chart in the grid to the given time window */
+  onZoom(zoom: TimeRange): void
+
+  /** Update the shared crosshair */
+  onCursor(cursor: number | undefined): void
+}
+
+/** Charts use this context to share a zoom window and crosshair with the other charts of their grid */
+export const ChartGridContext = React.createContext<ChartGridContextValue>({
+  onZoom: () => undefined,
+  onCursor: () => undefined,
+})
+
+/**
+ * The shared crosshair has a context of its own, so that moving the
+ * mouse re-renders only the crosshairs, and not the charts beneath.
+ */
+export const ChartGridCursorContext = React.createContext<ChartGridState["cursor"]>(undefined)
+
+type Props = React.PropsWithChildren<{
+  /** Number of grid columns, if not the default of 2 */
+  numColumns?: number
+
+  /** Annotations to overlay on every chart in the grid */
+  annotations?: Annotation[]
+
+  /** Optional controls to display above the charts */
+  toolbar?: React.ReactNode
+}>
+
+export default class ChartGrid extends React.PureComponent<Props, ChartGridState> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = {}
+  }
+
+  /** The value of our `ChartGridContext`, which we rebuild only when the zoom window or annotations change */
+  private contextValue?: ChartGridContextValue
+
+  private readonly onZoom = (zoom: TimeRange) => this.setState({ zoom })
+
+  private readonly onResetZoom = () => this.setState({ zoom: undefined })
+
+  private readonly onCursor = (cursor: number | undefined) => {
+    if (cursor !== this.state.cursor) {
+      this.setState({ cursor })
+    }
+  }
+
+  /** @return UI that describes the zoom window, and lets the user reset it */
+  private zoomToolbar() {
+    if (this.state.zoom) {
+      const { minTime, maxTime } = this.state.zoom
+      const time = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+      return (
+        <React.Fragment>
+          <span>
+            Zoomed to {time(minTime)} – {time(maxTime)}
+          </span>
+          <Button variant="link" isSmall onClick={this.onResetZoom}>
+            Reset zoom
+          </Button>
+        </React.Fragment>
+      )
+    }
+  }
+
+  /** @return the toolbar row, if we have any controls to show */
+  private toolbar() {
+    if (this.props.toolbar || this.state.zoom) {
+      return (
+        <div className="codeflare-chart-grid-toolbar">
+          {this.props.toolbar}
+          {this.zoomToolbar()}
+        </div>
+      )
+    }
+  }
+
+  /** @return the value of our `ChartGridContext` */
+  private value(): ChartGridContextValue {
+    const { zoom } = this.state
+    const { annotations } = this.props
+
+    if (!this.contextValue || this.contextValue.zoom !== zoom || this.contextValue.annotations !== annotations) {
+      this.contextValue = { zoom, annotations, onZoom: this.onZoom, onCursor: this.onCursor }
+    }
+
+    return this.contextValue
+  }
+
+  public render() {
+    return (
+      <ChartGridContext.Provider value={this.value()}>
+        <ChartGridCursorContext.Provider value={this.state.cursor}>
+          <div
+            className="codeflare-chart-grid flex-fill"
+            data-num-columns={this.props.numColumns}
+            data-has-toolbar={this.props.toolbar || this.state.zoom ? true : undefined}
+          >
+            {this.toolbar()}
+            {this.props.children}
+          </div>
+        </ChartGridCursorContext.Provider>
+      </ChartGridContext.Provider>
+    )
+  }
 }
@@ -16,14 +16,27 @@
 
 import React from "react"
 import stripAnsi from "strip-ansi"
+import { Switch } from "@patternfly/react-core"
 
 import { toHostMap } from "../controller/charts/LogRecord"
 import { timeRange } from "../controller/charts/timestamps"
-import { nLinesPerGPURecord, parseRecord as parseGpuRecord, Log as GpuLog } from "../controller/charts/gpu"
-import { filter as filterCpuLine, parseLine as parseCpuLine, Log as CpuLog } from "../controller/charts/vmstat"
+import {
+  collateLines as collateGpuLines,
+  selectedMetrics as selectedGpuMetrics,
+  Log as GpuLog,
+} from "../controller/charts/parsers/gpu"
+import { filter as filterCpuLine, parseLine as parseCpuLine, Log as CpuLog } from "../controller/charts/parsers/vmstat"
+import { collateLine as collateMemoryLine, Log as MemoryLog } from "../controller/charts/parsers/memory"
+import { collateEvent as collateKubeEvent, KubeEvent } from "../controller/events/kube"
+import { collateEvent as collateTorchEvent, TorchEvent } from "../controller/events/torch"
+import { kubeAnnotations, torchAnnotations } from "../controller/events/annotations"
+import toSpans from "../controller/events/timeline"
 
 import GPUChart from "./GPUChart"
+import Timeline from "./Timeline"
+import ChartGrid from "./ChartGrid"
 import VmstatChart from "./VmstatChart"
+import MemoryChart from "./MemoryChart"
 
 interface Props {
   /** GPU log records to display on initial render */
@@ -32,12 +45,36 @@ interface Props {
   /** CPU log records to display on initial render */
   initialCpuData?: CpuLog[]
 
+  /** Pod memory log records to display on initial render; timestamps are relative to the start of the run */
+  initialMemoryData?: MemoryLog[]
+
+  /** Torch events to overlay on the charts on initial render */
+  initialTorchEvents?: TorchEvent[]
+
+  /** Kubernetes events to overlay on the charts on initial render */
+  initialKubeEvents?: KubeEvent[]
+
+  /** Additional nvidia-smi metrics to chart, e.g. `Power.Draw,Clocks.SM` or `all` */
+  gpuMetrics?: string
+
+  /** For hosts with more than one GPU, initially chart one per-host aggregate rather than per-GPU series? */
+  gpuAggregate?: boolean
+
   /** Follow gpu events? */
   onGpu?(eventType: "data", cb: (data: any) => void): void
 
   /** Follow cpu events? */
   onCpu?(eventType: "data", cb: (data: any) => void): void
 
+  /** Follow pod memory events? */
+  onMemory?(eventType: "data", cb: (data: any) => void): void
+
+  /** Follow torch events? */
+  onTorch?(eventType: "data", cb: (data: any) => void): void
+
+  /** Follow kube events? */
+  onKube?(eventType: "data", cb: (data: any) => void): void
+
   /** Stop any file watchers */
   unwatch?(): void
 }
@@ -52,11 +89,32 @@ interface State {
   /** To help with react updates, maintain the number of CPU records as a state variable */
   nCpuDataPoints: number
 
+  /** To help with react updates, maintain the number of pod memory records as a state variable */
+  nMemoryDataPoints: number
+
   /** The GPU records */
   gpuData: GpuLog[]
 
   /** The CPU records */
   cpuData: CpuLog[]
+
+  /** The pod memory records */
+  memoryData: MemoryLog[]
+
+  /** For hosts with more than one GPU, are we charting a per-host aggregate? */
+  gpuAggregate: boolean
+
+  /** To help with react updates, maintain the number of Torch and Kubernetes events as a state variable */
+  nEvents: number
+
+  /** The Torch events */
+  torchEvents: TorchEvent[]
+
+  /** The Kubernetes events */
+  kubeEvents: KubeEvent[]
+
+  /** Overlay the Torch and Kubernetes events on the charts? */
+  showAnnotations: boolean
 }
 
 /** Combined GPU/CPU chart set that interleaves (GPU,CPU) for each node */
@@ -66,11 +124,19 @@ export default class Combo extends React.PureComponent<Props, State> {
 
     const gpuData = props.initialGpuData || []
     const cpuData = props.initialCpuData || []
+    const memoryData = props.initialMemoryData || []
     this.state = {
       gpuData,
       cpuData,
+      memoryData,
       nGpuDataPoints: gpuData.length,
       nCpuDataPoints: cpuData.length,
+      nMemoryDataPoints: memoryData.length,
+      gpuAggregate: !!props.gpuAggregate,
+      torchEvents: props.initialTorchEvents || [],
+      kubeEvents: props.initialKubeEvents || [],
+      nEvents: 0,
+      showAnnotations: true,
     }
 
     // reduce any initial flood of events
@@ -89,18 +155,10 @@ export default class Combo extends React.PureComponent<Props, State> {
           }
 
           flushTO = setTimeout(() => {
-            let nNewRecords = 0
-            let idx = queue.findIndex((_) => _.length > 0)
-            while (idx < queue.length) {
-              const record = parseGpuRecord(queue.slice(idx, idx + nLinesPerGPURecord))
-              this.state.gpuData.push(record)
-              nNewRecords++
-              idx += nLinesPerGPURecord + 1
-            }
-
-            queue = queue.slice(idx)
+            // any trailing partial record stays in the queue, until its terminating blank line arrives
+            queue = collateGpuLines(this.state.gpuData, queue)
             this.setState((curState) => ({
-              nGpuDataPoints: curState.nGpuDataPoints + nNewRecords,
+              nGpuDataPoints: curState.gpuData.length,
             }))
           }, queueFlushHysteresis)
         }
@@ -129,6 +187,67 @@ export default class Combo extends React.PureComponent<Props, State> {
         }
       })
     }
+
+    if (props.onMemory) {
+      let queue: string[] = []
+      let flushTO: ReturnType<typeof setTimeout>
+
+      props.onMemory("data", (line) => {
+        if (typeof line === "string") {
+          queue.push(stripAnsi(line))
+          if (flushTO) {
+            clearTimeout(flushTO)
+          }
+
+          flushTO = setTimeout(() => {
+            queue.forEach((line) => collateMemoryLine(this.state.memoryData, line))
+            queue = []
+            this.setState((curState) => ({
+              nMemoryDataPoints: curState.memoryData.length,
+            }))
+          }, queueFlushHysteresis)
+        }
+      })
+    }
+
+    if (props.onTorch) {
+      this.followEvents(props.onTorch, (line) => collateTorchEvent(this.state.torchEvents, line), queueFlushHysteresis)
+    }
+
+    if (props.onKube) {
+      this.followEvents(
+        props.onKube,
+        (line) => collateKubeEvent(this.state.kubeEvents, line, Date.now()),
+        queueFlushHysteresis
+      )
+    }
+  }
+
+  /** Collate the lines of the given event stream into our Torch or Kubernetes event state */
+  private followEvents(
+    on: NonNullable<Props["onTorch"]>,
+    collate: (line: string) => void,
+    queueFlushHysteresis: number
+  ) {
+    let queue: string[] = []
+    let flushTO: ReturnType<typeof setTimeout>
+
+    on("data", (line) => {
+      if (typeof line === "string") {
+        queue.push(stripAnsi(line))
+        if (flushTO) {
+          clearTimeout(flushTO)
+        }
+
+        flushTO = setTimeout(() => {
+          queue.forEach(collate)
+          queue = []
+          this.setState((curState) => ({
+            nEvents: curState.torchEvents.length + curState.kubeEvents.length,
+          }))
+        }, queueFlushHysteresis)
+      }
+    })
   }
 
   public static getDerivedStateFromError(error: Error) {
@@ -146,7 +265,7 @@ export default class Combo extends React.PureComponent<Props, State> {
   }
 
   /** Oops, sometimes we have no data for a give node */
-  private static noData(node: string, kind: "CPU Utilization" | "GPU Utilization", idx: number) {
+  private static noData(node: string, kind: "CPU Utilization" | "GPU Utilization" | "Memory Utilization", idx: number) {
     return (
       <div key={`nodata-${kind}-${idx}`} className="flex-layout" title={`No ${kind} for ${node}`}>
         <span className="flex-fill flex-layout flex-align-center">no data</span>
@@ -154,11 +273,55 @@ export default class Combo extends React.PureComponent<Props, State> {
     )
   }
 
+  /**
+   * pod-memory.txt carries no timestamps, so its records are relative
+   * to the start of the run; anchor them to the start of the
+   * timestamped data.
+   */
+  private memoryData(startTime: number): MemoryLog[] {
+    const anchor = startTime === Number.MAX_VALUE ? 0 : startTime
+    return this.state.memoryData.map((_) => Object.assign({}, _, { timestamp: _.timestamp + anchor }))
+  }
+
+  /** The user has toggled the overlay of Torch and Kubernetes events */
+  private readonly onToggleAnnotations = (showAnnotations: boolean) => this.setState({ showAnnotations })
+
+  /** @return annotations for the Torch and Kubernetes events */
+  private get annotations() {
+    return [...torchAnnotations(this.state.torchEvents), ...kubeAnnotations(this.state.kubeEvents)]
+  }
+
+  /** @return UI that lets the user toggle the overlay of Torch and Kubernetes events */
+  private toolbar(hasAnnotations: boolean) {
+    if (hasAnnotations) {
+      return (
+        <Switch
+          id="codeflare-chart-annotations"
+          label="Show training phases and events"
+          isChecked={this.state.showAnnotations}
+          onChange={this.onToggleAnnotations}
+        />
+      )
+    }
+  }
+
+  /** Apply the user's choice of per-GPU versus per-host aggregate to the GPU charts of all nodes */
+  private readonly onToggleGpuAggregate = (gpuAggregate: boolean) => this.setState({ gpuAggregate })
+
+  /** Do we have any pod memory data? If so, we will show a third column */
+  private get hasMemoryData() {
+    return this.state.memoryData.length > 0
+  }
+
   public charts() {
     // get a canonical list of nodes
     const gpuMap = toHostMap(this.state.gpuData)
     const cpuMap = toHostMap(this.state.cpuData)
-    const nodes = Array.from(new Set(Object.keys(gpuMap).concat(Object.keys(cpuMap)))).sort((a, b) => {
+    const memoryData = this.memoryData(timeRange(this.state.gpuData, this.state.cpuData).min)
+    const memoryMap = toHostMap(memoryData)
+    const nodes = Array.from(
+      new Set(Object.keys(gpuMap).concat(Object.keys(cpuMap)).concat(Object.keys(memoryMap)))
+    ).sort((a, b) => {
       // sort them so that nodes for which we have both gpu and cpu
       // data float to the top; in second place will be the group of
       // nodes for which we have only gpu data; in last place will be
@@ -174,17 +337,19 @@ export default class Combo extends React.PureComponent<Props, State> {
       return vB - vA
     })
 
-    // find the time range that spans both charts
-    const range = timeRange(this.state.gpuData, this.state.cpuData)
+    // find the time range that spans all of the charts
+    const range = timeRange(this.state.gpuData, this.state.cpuData, memoryData)
 
-    // interleave the gpu and cpu charts for given node, i.e. [n1gpu,
-    // n2cpu, n2gpu, n2cpu, ...]. Display "no data" for the places we
-    // lack either kind of data for a given node
-    return nodes.flatMap((node, idx) => {
+    // interleave the gpu and cpu (and memory, if we have any) charts
+    // for given node, i.e. [n1gpu, n1cpu, n2gpu, n2cpu, ...]. Display
+    // "no data" for the places we lack either kind of data for a
+    // given node
+    const charts = nodes.flatMap((node, idx) => {
       // here, we make a (gpu, cpu) pair; we will flatMap these pairs
       // into the desired linear array
       const gpuForNode = gpuMap[node]
       const cpuForNode = cpuMap[node]
+      const memoryForNode = memoryMap[node]
 
       // force render if time range changes; e.g. no updates for
       // gpu, but we got an update to cpu that changes the time
@@ -196,10 +361,13 @@ export default class Combo extends React.PureComponent<Props, State> {
           Combo.noData(node, "GPU Utilization", idx) // no gpu data for this node!
         ) : (
           <GPUChart
-            key={`gpu-${gpuForNode.length}-${baseKey}`}
+            key={`gpu-${gpuForNode.length}-${this.state.gpuAggregate}-${baseKey}`}
             minTime={range.min}
             maxTime={range.max}
             logs={{ [node]: gpuForNode }}
+            metrics={selectedGpuMetrics(this.props.gpuMetrics, gpuForNode)}
+            aggregate={this.state.gpuAggregate}
+            onToggleAggregate={this.onToggleGpuAggregate}
           />
         ),
         !cpuForNode ? (
@@ -212,15 +380,55 @@ export default class Combo extends React.PureComponent<Props, State> {
             logs={{ [node]: cpuForNode }}
           />
         ),
+        ...(!this.hasMemoryData
+          ? []
+          : [
+              !memoryForNode ? (
+                Combo.noData(node, "Memory Utilization", idx) // no memory data for this node!
+              ) : (
+                <MemoryChart
+                  key={`memory-${memoryForNode.length}-${baseKey}`}
+                  minTime={range.min}
+                  maxTime={range.max}
+                  logs={{ [node]: memoryForNode }}
+                />
+              ),
+            ]),
       ]
     })
+
+    // and, below those, the events on the same time axis
+    return !this.state.showAnnotations ? charts : [...charts, this.timeline(range)]
+  }
+
+  /** @return a timeline of the Torch and Kubernetes events, spanning the given time range */
+  private timeline(range: ReturnType<typeof timeRange>) {
+    const spans = toSpans([...this.state.torchEvents, ...this.state.kubeEvents])
+    return (
+      <Timeline
+        key={`timeline-${this.state.nEvents}-${range.min}-${range.max}`}
+        spans={spans}
+        minTime={range.min}
+        maxTime={range.max}
+      />
+    )
   }
 
   public render() {
     if (this.state.catastrophicError) {
       return "InternalError"
     } else {
-      return <div className="codeflare-chart-grid flex-fill">{this.charts()}</div>
+      const annotations = this.annotations
+
+      return (
+        <ChartGrid
+          numColumns={this.hasMemoryData ? 3 : 2}
+          annotations={this.state.showAnnotations ? annotations : undefined}
+          toolbar={this.toolbar(annotations.length > 0)}
+        >
+          {this.charts()}
+        </ChartGrid>
+      )
     }
   }
 }
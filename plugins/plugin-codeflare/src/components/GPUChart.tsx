@@ -15,24 +15,47 @@
  */
 
 import React from "react"
+import { Switch } from "@patternfly/react-core"
 
-import { Log } from "../controller/charts/gpu"
+import { Log, aggregate, toDeviceMap } from "../controller/charts/parsers/gpu"
 import { HostMap } from "../controller/charts/LogRecord"
-import BaseChart, { BaseChartProps, TimeRange } from "./Chart"
+import BaseChart, { BaseChartProps, Series, TimeRange } from "./Chart"
 
 type Props = TimeRange & {
   logs: HostMap<Log>
+
+  /** Additional nvidia-smi metric labels to chart, e.g. `Power.Draw` */
+  metrics?: string[]
+
+  /** For hosts with more than one GPU, initially chart one per-host aggregate rather than per-GPU series? */
+  aggregate?: boolean
+
+  /** The user has toggled between per-GPU and per-host aggregate charts */
+  onToggleAggregate?(aggregate: boolean): void
 }
 
 type State = {
   charts: BaseChartProps[]
+
+  /** For hosts with more than one GPU, are we charting a per-host aggregate? */
+  aggregate: boolean
 }
 
 export default class GPUChart extends React.PureComponent<Props, State> {
   public constructor(props: Props) {
     super(props)
     this.state = {
-      charts: this.charts(props),
+      aggregate: !!props.aggregate,
+      charts: this.charts(props, !!props.aggregate),
+    }
+  }
+
+  /** Toggle between per-GPU and per-host aggregate charts */
+  private readonly onToggleAggregate = (aggregate: boolean) => {
+    this.setState({ aggregate, charts: this.charts(this.props, aggregate) })
+
+    if (this.props.onToggleAggregate) {
+      this.props.onToggleAggregate(aggregate)
     }
   }
 
@@ -57,27 +80,144 @@ export default class GPUChart extends React.PureComponent<Props, State> {
     y: line.temperatureGPU,
   })
 
-  /** Create a new chart for the given Log `lines` */
-  private readonly newChart = ([node, lines]: [string, Log[]]): BaseChartProps => {
+  /** Format a Victory datum for an additional metric, e.g. `Power.Draw` */
+  private datumForMetric(label: string, line: Log) {
+    const unit = line.units[label]
+    return {
+      name: BaseChart.nodeNameLabel(line.hostname) + " " + label + (unit ? ` (${unit})` : ""),
+      x: line.timestamp - this.props.minTime,
+      y: line.metrics[label],
+    }
+  }
+
+  /**
+   * @return a series for each of the additional metrics in
+   * `this.props.metrics`; these do not have their own axis, so each
+   * is normalized against its own range
+   */
+  private metricSeries(lines: Log[]): Series[] {
+    return (this.props.metrics || [])
+      .map((label, idx) => ({
+        impl: "ChartLine" as const,
+        stroke: BaseChart.colors[4 + (idx % 3)],
+        data: lines.filter((_) => label in _.metrics).map((_) => this.datumForMetric(label, _)),
+      }))
+      .filter((_) => _.data.length > 0)
+      .map((_) => Object.assign(_, { y: BaseChart.normalize(_, "count").y, format: "count" as const }))
+  }
+
+  /** Format a Victory datum for the GPU Utilization time series of one GPU of a multi-GPU host */
+  private datumForDevice(device: string, line: Log) {
+    return {
+      name: BaseChart.nodeNameLabel(line.hostname) + " " + device + " Utilization",
+      x: line.timestamp - this.props.minTime,
+      y: line.utilizationGPU,
+    }
+  }
+
+  /** @return UI that lets the user toggle between per-GPU and per-host aggregate charts */
+  private toolbar(node: string, aggregate: boolean) {
+    return (
+      <Switch
+        id={`codeflare-gpu-aggregate-${node}`}
+        label="Mean of GPUs"
+        labelOff="Per GPU"
+        isChecked={aggregate}
+        onChange={this.onToggleAggregate}
+      />
+    )
+  }
+
+  /** @return the right-hand y axis for the given Temperature series */
+  private temperatureAxis(series: Series): BaseChartProps["yAxes"][number] {
+    const data = BaseChart.normalize(series, "celsius")
+
+    return {
+      label: "Temperature",
+      format: "celsius",
+      orientation: "right",
+      tickCount: 3,
+      y: data.y,
+      tickFormat: data.tickFormat,
+      tickValues: data.tickValues,
+      style: BaseChart.twoAxisStyle[2],
+    }
+  }
+
+  /**
+   * Create a new chart with one GPU Utilization series for each GPU
+   * of a multi-GPU host. The memory, temperature, and additional
+   * metrics are charted beside these as per-host aggregates.
+   */
+  private newPerDeviceChart(node: string, lines: Log[], devices: HostMap<Log>): BaseChartProps {
+    const utilization = Object.entries(devices).map(([device, lines], idx) => ({
+      impl: "ChartLine" as const,
+      stroke: BaseChart.colors[1 + (idx % (BaseChart.colors.length - 1))],
+      data: lines.map((_) => this.datumForDevice(device, _)),
+    }))
+
+    const aggregates = aggregate(lines)
+    const memory = {
+      impl: "ChartArea" as const,
+      stroke: BaseChart.colors[0],
+      data: aggregates.map(this.datumForSeries2),
+    }
+    const temperature = {
+      impl: "ChartDashedLine" as const,
+      stroke: BaseChart.colors[3],
+      data: aggregates.map(this.datumForSeries3),
+    }
+
+    const data = BaseChart.normalize(utilization[0], "percentage")
+
+    return {
+      key: node,
+      title: BaseChart.nodeNameLabel(node),
+      desc: "Chart showing GPU utilization of each GPU, and GPU memory and temperature, over time",
+      toolbar: this.toolbar(node, false),
+      yAxes: [
+        {
+          label: "GPU",
+          format: "percentage",
+          y: data.y,
+          tickFormat: data.tickFormat,
+          tickValues: data.tickValues,
+          style: BaseChart.twoAxisStyle[0],
+        },
+        ...utilization.slice(1).map(() => undefined),
+        undefined, // memory shares the GPU axis
+        this.temperatureAxis(temperature),
+      ],
+      series: [...utilization, memory, temperature, ...this.metricSeries(aggregates)],
+    }
+  }
+
+  /**
+   * Create a new chart for the given Log `lines`. For multi-GPU
+   * hosts, the given `lines` are per-host aggregates over
+   * `nDevices` GPUs.
+   */
+  private newChart(node: string, lines: Log[], nDevices = 1): BaseChartProps {
     const series = [
       { impl: "ChartArea" as const, stroke: BaseChart.colors[1], data: lines.map(this.datumForSeries1) },
       { impl: "ChartLine" as const, stroke: BaseChart.colors[2], data: lines.map(this.datumForSeries2) },
       { impl: "ChartDashedLine" as const, stroke: BaseChart.colors[3], data: lines.map(this.datumForSeries3) },
     ]
 
-    const data = series.map((_, idx) => BaseChart.normalize(_, idx !== 2 ? "percentage" : "celsius"))
+    const data = BaseChart.normalize(series[0], "percentage")
 
     return {
       key: node,
-      title: BaseChart.nodeNameLabel(node),
+      title: BaseChart.nodeNameLabel(node) + (nDevices > 1 ? ` (${nDevices} GPUs)` : ""),
       desc: "Chart showing GPU utilization over time",
+      toolbar: nDevices > 1 ? this.toolbar(node, true) : undefined,
       yAxes: [
         {
           label: "GPU",
           format: "percentage",
-          y: data[0].y,
-          tickFormat: data[0].tickFormat,
-          tickValues: data[0].tickValues,
+          y: data.y,
+          tickFormat: data.tickFormat,
+          tickValues: data.tickValues,
           style: BaseChart.twoAxisStyle[0],
         },
         /*{
@@ -90,23 +230,25 @@ export default class GPUChart extends React.PureComponent<Props, State> {
             style: BaseChart.twoAxisStyle[1],
             },*/
         undefined,
-        {
-          label: "Temperature",
-          format: "celsius",
-          orientation: "right",
-          tickCount: 3,
-          y: data[2].y,
-          tickFormat: data[2].tickFormat,
-          tickValues: data[2].tickValues,
-          style: BaseChart.twoAxisStyle[2],
-        },
+        this.temperatureAxis(series[2]),
       ],
-      series,
+      series: [...series, ...this.metricSeries(lines)],
     }
   }
 
-  private charts(props: Props): BaseChartProps[] {
-    return Object.entries(props.logs).map(this.newChart)
+  private charts(props: Props, aggregateDevices: boolean): BaseChartProps[] {
+    return Object.entries(props.logs).map(([node, lines]) => {
+      const devices = toDeviceMap(lines)
+      const nDevices = Object.keys(devices).length
+
+      if (nDevices <= 1) {
+        return this.newChart(node, lines)
+      } else if (aggregateDevices) {
+        return this.newChart(node, aggregate(lines), nDevices)
+      } else {
+        return this.newPerDeviceChart(node, lines, devices)
+      }
+    })
   }
 
   public render() {
@@ -15,6 +15,7 @@
  */
 
 import React from "react"
+import prettyMillis from "pretty-ms"
 import { Tooltip } from "@kui-shell/plugin-client-common"
 
 import { GenericEvent } from "../controller/events/Event"
@@ -33,11 +34,13 @@ export default class Grid extends React.PureComponent<Props> {
     const subtitle = event.subtitle || event.type
     const status = event.state
     const showMoreDetail = event.message || " "
+    const duration = event.endTimestamp !== undefined ? prettyMillis(event.endTimestamp - event.timestamp) : ""
 
     return `### ${title}
 #### ${subtitle}
 
 ${status ? "Status: " + status : ""}
+${duration ? "Duration: " + duration : ""}
 
 \`${showMoreDetail}\``
   }
@@ -50,6 +53,7 @@ ${status ? "Status: " + status : ""}
           data-tag="badge"
           data-type={event.type.replace(/\s/g, "")}
           data-state={event.state}
+          data-highlight={event.highlight || undefined}
         >
           <span data-tag="badge-circle"></span>
         </span>
@@ -0,0 +1,89 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+
+import { Log } from "../controller/charts/parsers/memory"
+import { HostMap } from "../controller/charts/LogRecord"
+import BaseChart, { BaseChartProps, TimeRange } from "./Chart"
+
+type Props = TimeRange & {
+  logs: HostMap<Log>
+}
+
+type State = {
+  charts: BaseChartProps[]
+}
+
+export default class MemoryChart extends React.PureComponent<Props, State> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = {
+      charts: this.charts(props),
+    }
+  }
+
+  /** Format a Victory datum for the Used Memory time series; the "memory" formatter expects KiB */
+  private readonly datumForSeries1 = (line: Log) => ({
+    name: BaseChart.nodeNameLabel(line.hostname) + " Used Memory",
+    x: line.timestamp - this.props.minTime,
+    y: line.usedBytes / 1024,
+  })
+
+  /** Format a Victory datum for the Memory Limit time series */
+  private readonly datumForSeries2 = (line: Log) => ({
+    name: BaseChart.nodeNameLabel(line.hostname) + " Memory Limit",
+    x: line.timestamp - this.props.minTime,
+    y: line.limitBytes / 1024,
+  })
+
+  /** Create a new chart for the given Log `lines` */
+  private readonly newChart = ([node, lines]: [string, Log[]]): BaseChartProps => {
+    const series = [
+      { impl: "ChartArea" as const, stroke: BaseChart.colors[1], data: lines.map(this.datumForSeries1) },
+      { impl: "ChartDashedLine" as const, stroke: BaseChart.colors[3], data: lines.map(this.datumForSeries2) },
+    ]
+
+    // normalize against the limit, so that both series share one y axis
+    const data = BaseChart.normalize(series[1], "memory")
+
+    return {
+      key: node,
+      title: BaseChart.nodeNameLabel(node),
+      desc: "Chart showing memory usage versus memory limit over time for " + node,
+      series,
+      yAxes: [
+        {
+          label: "Memory",
+          format: "memory",
+          y: data.y,
+          tickFormat: data.tickFormat,
+          tickValues: data.tickValues,
+          style: BaseChart.twoAxisStyle[0],
+        },
+        undefined,
+      ],
+    }
+  }
+
+  private charts(props: Props): BaseChartProps[] {
+    return Object.entries(props.logs).map(this.newChart)
+  }
+
+  public render() {
+    return <BaseChart charts={this.state.charts} minTime={this.props.minTime} maxTime={this.props.maxTime} />
+  }
+}
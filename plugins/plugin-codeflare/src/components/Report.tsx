@@ -0,0 +1,144 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+
+import { TimeRange } from "./Chart"
+import ChartGrid from "./ChartGrid"
+import GPUChart from "./GPUChart"
+import Timeline from "./Timeline"
+import VmstatChart from "./VmstatChart"
+import MemoryChart from "./MemoryChart"
+
+import { Summary } from "../controller/description"
+import { ReportModel } from "../controller/report/model"
+import { timeRange } from "../controller/charts/timestamps"
+import LogRecord, { toHostMap } from "../controller/charts/LogRecord"
+
+/**
+ * A static rendering of a run, for `codeflare report`. This must not
+ * depend on any interactivity or stylesheets of the Kui client, as it
+ * will be serialized to a standalone HTML file.
+ */
+export default class Report extends React.PureComponent<ReportModel> {
+  private section(title: string, body: React.ReactNode) {
+    return (
+      <section>
+        <h2>{title}</h2>
+        {body}
+      </section>
+    )
+  }
+
+  private none(what: string) {
+    return <p className="codeflare-report-none">This run has no {what}</p>
+  }
+
+  private description(title: string, summary?: Summary) {
+    return this.section(
+      title,
+      !summary ? (
+        this.none("well-formed Ray job definition")
+      ) : (
+        <dl>
+          {summary.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt>{label}</dt>
+              <dd>{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )
+    )
+  }
+
+  private utilization() {
+    const { gpu, vmstat, memory } = this.props
+    if (gpu.length === 0 && vmstat.length === 0 && memory.length === 0) {
+      return this.section("Utilization", this.none("utilization samples"))
+    }
+
+    const range = (records: LogRecord<unknown>[]): TimeRange => {
+      const { min, max } = timeRange(records)
+      return { minTime: min, maxTime: max }
+    }
+
+    return this.section(
+      "Utilization",
+      <ChartGrid>
+        {gpu.length > 0 && <GPUChart logs={toHostMap(gpu)} {...range(gpu)} />}
+        {vmstat.length > 0 && <VmstatChart logs={toHostMap(vmstat)} {...range(vmstat)} />}
+        {memory.length > 0 && <MemoryChart logs={toHostMap(memory)} {...range(memory)} />}
+      </ChartGrid>
+    )
+  }
+
+  private timeline() {
+    const { spans } = this.props
+    if (spans.length === 0) {
+      return this.section("Events", this.none("events"))
+    }
+
+    const minTime = spans.reduce((min, _) => Math.min(min, _.start), Number.MAX_VALUE)
+    const maxTime = spans.reduce((max, _) => Math.max(max, _.end), 0)
+
+    return this.section(
+      "Events",
+      <ChartGrid>
+        <Timeline spans={spans} minTime={minTime} maxTime={maxTime} />
+      </ChartGrid>
+    )
+  }
+
+  private logs() {
+    const { logs, nLogLines } = this.props
+    const title =
+      logs.length < nLogLines ? `Application Logs (last ${logs.length} of ${nLogLines} lines)` : "Application Logs"
+
+    return this.section(title, logs.length === 0 ? this.none("job logs") : <pre>{logs.join("\n")}</pre>)
+  }
+
+  private source() {
+    const { source } = this.props
+    return this.section(
+      "Application Source",
+      !source ? (
+        this.none("application source")
+      ) : (
+        <pre>
+          <code data-language={source.language}>{source.source}</code>
+        </pre>
+      )
+    )
+  }
+
+  public render() {
+    return (
+      <main>
+        <header>
+          <h1>{this.props.title}</h1>
+          <p>Generated {new Date(this.props.generated).toLocaleString()}</p>
+        </header>
+        {this.description("Summary", this.props.application)}
+        {this.description("Workers", this.props.workers)}
+        {this.utilization()}
+        {this.timeline()}
+        {this.logs()}
+        {this.source()}
+      </main>
+    )
+  }
+}
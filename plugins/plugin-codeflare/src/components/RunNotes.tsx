@@ -0,0 +1,152 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { Alert, Flex, FlexItem, Label, Switch, TextArea, TextInput } from "@patternfly/react-core"
+
+import { RunNotes as Notes, parseTag } from "../controller/run/RunDirectory"
+
+type Props = {
+  /** The id of the run, to keep the ids of our inputs unique */
+  runId: string
+
+  /** The notes as of when the run was opened */
+  notes: Notes
+
+  /** Persist the given notes; if not given, the notes are read-only */
+  onSave?(notes: Notes): Promise<void>
+}
+
+type State = Notes & {
+  /** The content of the new-tag input */
+  newTag: string
+
+  /** Ouch, we could not save */
+  error?: Error
+}
+
+/** Editor for the notes, tags, and starred flag of a run */
+export default class RunNotes extends React.PureComponent<Props, State> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = Object.assign({ newTag: "" }, props.notes)
+  }
+
+  private get notes(): Notes {
+    return { notes: this.state.notes, tags: this.state.tags, starred: this.state.starred }
+  }
+
+  /** Update and persist the given fields of the notes */
+  private save(update: Partial<Notes>) {
+    const notes = Object.assign(this.notes, update)
+    this.setState(Object.assign({ error: undefined }, notes))
+
+    if (this.props.onSave) {
+      this.props.onSave(notes).catch((error) => this.setState({ error }))
+    }
+  }
+
+  private readonly onToggleStarred = (starred: boolean) => this.save({ starred })
+
+  private readonly onChangeNotes = (notes: string) => this.setState({ notes })
+
+  /** We save the free-form notes when the user is done editing them, rather than on every keystroke */
+  private readonly onBlurNotes = () => this.save({ notes: this.state.notes })
+
+  private readonly onChangeNewTag = (newTag: string) => this.setState({ newTag })
+
+  private readonly onNewTagKeyDown = (evt: React.KeyboardEvent) => {
+    if (evt.key === "Enter") {
+      const tag = parseTag(this.state.newTag)
+      if (tag) {
+        this.setState({ newTag: "" })
+        this.save({ tags: Object.assign({}, this.state.tags, { [tag[0]]: tag[1] }) })
+      }
+    }
+  }
+
+  private removeTag(key: string) {
+    const tags = Object.assign({}, this.state.tags)
+    delete tags[key]
+    this.save({ tags })
+  }
+
+  private tags() {
+    const readonly = !this.props.onSave
+
+    return (
+      <Flex spaceItems={{ default: "spaceItemsSm" }} alignItems={{ default: "alignItemsCenter" }}>
+        {Object.entries(this.state.tags).map(([key, value]) => (
+          <FlexItem key={key}>
+            <Label color="blue" onClose={readonly ? undefined : () => this.removeTag(key)}>
+              {key}={value}
+            </Label>
+          </FlexItem>
+        ))}
+        {!readonly && (
+          <FlexItem>
+            <TextInput
+              id={`codeflare-run-notes-tag-${this.props.runId}`}
+              aria-label="New tag"
+              placeholder="Add a tag: key=value"
+              value={this.state.newTag}
+              onChange={this.onChangeNewTag}
+              onKeyDown={this.onNewTagKeyDown}
+            />
+          </FlexItem>
+        )}
+      </Flex>
+    )
+  }
+
+  public render() {
+    const readonly = !this.props.onSave
+
+    return (
+      <Flex direction={{ default: "column" }} spaceItems={{ default: "spaceItemsSm" }}>
+        {this.state.error && (
+          <FlexItem>
+            <Alert isInline variant="danger" title="Could not save the notes of this run">
+              {this.state.error.message}
+            </Alert>
+          </FlexItem>
+        )}
+        <FlexItem>
+          <Switch
+            id={`codeflare-run-notes-starred-${this.props.runId}`}
+            label="Starred"
+            labelOff="Not starred"
+            isChecked={this.state.starred}
+            isDisabled={readonly}
+            onChange={this.onToggleStarred}
+          />
+        </FlexItem>
+        <FlexItem>{this.tags()}</FlexItem>
+        <FlexItem>
+          <TextArea
+            aria-label="Notes"
+            placeholder="Notes on this run, e.g. what experiment it was"
+            value={this.state.notes}
+            isReadOnly={readonly}
+            onChange={this.onChangeNotes}
+            onBlur={this.onBlurNotes}
+            autoResize
+          />
+        </FlexItem>
+      </Flex>
+    )
+  }
+}
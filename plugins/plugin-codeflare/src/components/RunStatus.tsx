@@ -0,0 +1,93 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import prettyMillis from "pretty-ms"
+import { Alert, AlertProps } from "@patternfly/react-core"
+
+import { JobDefinition } from "../controller/run/RunDirectory"
+
+type Props = {
+  /** The job definition of the run, if it has already completed */
+  final?: JobDefinition
+
+  /** If the run is being followed, subscribe to its completion; returns an unsubscribe function */
+  onCompletion?(listener: (jobInfo: JobDefinition) => void): () => void
+}
+
+type State = {
+  /** The job definition of the run, once it has completed */
+  final?: JobDefinition
+}
+
+/**
+ * A banner that announces the final status of a run, either right
+ * away for a run that has already completed, or as soon as a followed
+ * run completes.
+ */
+export default class RunStatus extends React.PureComponent<Props, State> {
+  private unsubscribe?: () => void
+
+  public constructor(props: Props) {
+    super(props)
+    this.state = {}
+  }
+
+  public componentDidMount() {
+    if (this.props.onCompletion) {
+      this.unsubscribe = this.props.onCompletion((final) => this.setState({ final }))
+    }
+  }
+
+  public componentWillUnmount() {
+    if (this.unsubscribe) {
+      this.unsubscribe()
+    }
+  }
+
+  private static variant(status: string): AlertProps["variant"] {
+    switch (status.toUpperCase()) {
+      case "SUCCEEDED":
+        return "success"
+      case "STOPPED":
+        return "warning"
+      default:
+        return "danger"
+    }
+  }
+
+  private static title({ status, start_time, end_time }: JobDefinition) {
+    const label = status[0].toUpperCase() + status.slice(1).toLowerCase()
+    return end_time
+      ? `Run ${label} at ${new Date(end_time).toLocaleString()}, after ${prettyMillis(end_time - start_time, {
+          secondsDecimalDigits: 0,
+        })}`
+      : `Run ${label}`
+  }
+
+  public render() {
+    const jobInfo = this.state.final || this.props.final
+    if (!jobInfo) {
+      return <React.Fragment />
+    }
+
+    return (
+      <Alert isInline variant={RunStatus.variant(jobInfo.status)} title={RunStatus.title(jobInfo)}>
+        {jobInfo.message}
+      </Alert>
+    )
+  }
+}
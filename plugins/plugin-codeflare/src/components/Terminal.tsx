@@ -52,6 +52,9 @@ interface Props extends ClassName {
   /** If given, the initial terminal output to render */
   initialContent?: string
 
+  /** If given, scroll to and select this line (1-based) of the `initialContent` */
+  jumpToLine?: number
+
   /**
    * Commence/recommence streaming. Will be invoked on mount.
    */
@@ -172,6 +175,12 @@ export default class XTerm extends React.PureComponent<Props, State> {
 
     this.terminal.open(xtermContainer)
 
+    if (this.props.jumpToLine) {
+      // wait for xterm to finish processing the initial content
+      const line = this.props.jumpToLine
+      this.terminal.write("", () => this.jumpToLine(line))
+    }
+
     const doResize = () => {
       try {
         fitAddon.fit()
@@ -190,6 +199,23 @@ export default class XTerm extends React.PureComponent<Props, State> {
     observer.observe(xtermContainer)
   }
 
+  /**
+   * Scroll to and select the given line of output. Long lines wrap
+   * onto several rows of the xterm buffer, so we count only the rows
+   * that start a line.
+   */
+  private jumpToLine(line: number) {
+    const buffer = this.terminal.buffer.active
+    for (let row = 0, nLines = 0; row < buffer.length; row++) {
+      const bufferLine = buffer.getLine(row)
+      if (bufferLine && !bufferLine.isWrapped && ++nLines === line) {
+        this.terminal.scrollToLine(Math.max(0, row - Math.floor(this.terminal.rows / 2)))
+        this.terminal.selectLines(row, row)
+        return
+      }
+    }
+  }
+
   /**
    * Take a hex color string and return the corresponding RGBA with the given alpha
    *
@@ -0,0 +1,161 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { Chart, ChartAxis, ChartAxisProps, ChartBar, ChartLabel, ChartTooltip } from "@patternfly/react-charts"
+
+import { Span } from "../controller/events/timeline"
+import BaseChart, { TimeRange } from "./Chart"
+import { ChartGridContext } from "./ChartGrid"
+
+import "../../web/scss/components/Dashboard/Charts.scss"
+
+type Props = TimeRange & {
+  /** The events to draw, one bar per event, one row per lane */
+  spans: Span[]
+}
+
+/**
+ * A Gantt-style view of events: each event is a bar from its start
+ * to its completion, and events are grouped into one row per node/ip.
+ * We share a time axis, and any zoom window, with the other charts of
+ * our `ChartGrid`.
+ */
+export default class Timeline extends React.PureComponent<Props> {
+  public static contextType = ChartGridContext
+  public declare context: React.ContextType<typeof ChartGridContext>
+
+  private static readonly fontSize = 9
+
+  /** We span a full row of the grid, hence the wider aspect ratio than a `BaseChart` */
+  private static readonly width = 420
+  private static readonly laneHeight = 14
+
+  private static readonly padding = {
+    top: Timeline.fontSize * 3,
+    bottom: Timeline.fontSize * 2,
+    left: Timeline.fontSize * 12,
+    right: Timeline.fontSize * 2,
+  }
+
+  /** Draw instantaneous events at least this fraction of the visible range wide */
+  private static readonly minBarFraction = 0.004
+
+  private static readonly axisStyle: ChartAxisProps["style"] = Object.assign({}, BaseChart.axisStyle, {
+    grid: { strokeWidth: 1, stroke: "var(--color-text-02)", strokeOpacity: 0.15 },
+  })
+
+  /** Use the same palette as the cells of the events `Grid` */
+  private static color(span: Span) {
+    return span.state === "Error"
+      ? "var(--color-base08)"
+      : /^Data/.test(span.type)
+      ? "var(--color-base0E)"
+      : /^Evaluation/.test(span.type)
+      ? "var(--color-base0F)"
+      : span.type === "Pulling"
+      ? "var(--color-base0A)"
+      : span.type === "Epoch"
+      ? "var(--color-base0D)"
+      : "var(--color-base0C)"
+  }
+
+  private static laneLabel(lane: string) {
+    const label = lane.replace(/^pod\//, "")
+    return label.length > 24 ? label.slice(0, 23) + "…" : label
+  }
+
+  private static timestamp(millis: number) {
+    return millis < 60 * 3 * 1000 ? (millis / 1000).toFixed(0) + "s" : (millis / 1000 / 60).toFixed(1) + "m"
+  }
+
+  /** Timestamps in the bars are relativized to `this.props.minTime`; @return the visible range, relativized likewise */
+  private get visibleRange() {
+    const { minTime, maxTime } = this.context.zoom || this.props
+    return { min: minTime - this.props.minTime, max: maxTime - this.props.minTime }
+  }
+
+  /** @return the distinct lanes, in order of appearance */
+  private get lanes() {
+    return Array.from(new Set(this.props.spans.map((_) => _.lane)))
+  }
+
+  private data(lanes: string[]) {
+    const { min, max } = this.visibleRange
+    const minWidth = (max - min) * Timeline.minBarFraction
+
+    return this.props.spans.map((span) => {
+      const y0 = span.start - this.props.minTime
+      return {
+        x: lanes.indexOf(span.lane) + 1,
+        y0,
+        y: Math.max(span.end - this.props.minTime, y0 + minWidth),
+        span,
+      }
+    })
+  }
+
+  private readonly label = ({ datum }: { datum: { span: Span } }) => {
+    const { span } = datum
+    return `${span.name}\n${span.type} (${span.state})\n${span.message}`
+  }
+
+  private readonly fill = ({ datum }: { datum?: { span: Span } }) => (datum ? Timeline.color(datum.span) : "")
+
+  public render() {
+    const lanes = this.lanes
+    if (lanes.length === 0) {
+      return <React.Fragment />
+    }
+
+    const { min, max } = this.visibleRange
+    const height = Timeline.padding.top + Timeline.padding.bottom + lanes.length * Timeline.laneHeight
+
+    return (
+      <div className="codeflare-chart-container codeflare-timeline">
+        <Chart
+          horizontal
+          ariaDesc="Timeline of events, grouped by node"
+          padding={Timeline.padding}
+          width={Timeline.width}
+          height={height}
+          domain={{ x: [0.5, lanes.length + 0.5], y: [min, max] }}
+        >
+          <ChartLabel
+            x={Timeline.fontSize}
+            y={Timeline.fontSize}
+            style={{ fontSize: Timeline.fontSize, fontWeight: 600, fill: "var(--color-text-01)" }}
+            text="Timeline"
+          />
+          <ChartAxis
+            style={BaseChart.axisStyle}
+            tickValues={lanes.map((_, idx) => idx + 1)}
+            tickFormat={(idx: number) => Timeline.laneLabel(lanes[idx - 1] || "")}
+          />
+          <ChartAxis dependentAxis scale="time" style={Timeline.axisStyle} tickFormat={Timeline.timestamp} />
+          <ChartBar
+            horizontal
+            barWidth={Timeline.laneHeight * 0.6}
+            data={this.data(lanes)}
+            style={{ data: { fill: this.fill, fillOpacity: 0.85 } }}
+            labels={this.label}
+            labelComponent={<ChartTooltip constrainToVisibleArea />}
+          />
+        </Chart>
+      </div>
+    )
+  }
+}
@@ -0,0 +1,99 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+
+import { Log } from "../controller/charts/parsers/metrics"
+import { HostMap } from "../controller/charts/LogRecord"
+import BaseChart, { BaseChartProps, Series, TimeRange } from "./Chart"
+
+type Props = TimeRange & {
+  /** Map from worker ip to the metric values reported by that worker */
+  logs: HostMap<Log>
+
+  /** The metrics to chart, one chart per metric */
+  metrics: string[]
+}
+
+type State = {
+  charts: BaseChartProps[]
+}
+
+/** Charts of training metrics, e.g. loss and it/s, with one series per worker */
+export default class TrainingMetricsChart extends React.PureComponent<Props, State> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = {
+      charts: this.charts(props),
+    }
+  }
+
+  /** Format a Victory datum for the given worker's series of the given metric */
+  private datum(ip: string, line: Log) {
+    return {
+      name: `${ip} ${line.metric}`,
+      x: line.timestamp - this.props.minTime,
+      y: line.value,
+    }
+  }
+
+  /** Create a new chart for the given metric, with one series per worker */
+  private newChart(metric: string): BaseChartProps | undefined {
+    const series: Series[] = Object.entries(this.props.logs)
+      .map(([ip, lines]) => [ip, lines.filter((_) => _.metric === metric)] as const)
+      .filter(([, lines]) => lines.length > 0)
+      .map(([ip, lines], idx) => ({
+        impl: "ChartLine" as const,
+        stroke: BaseChart.colors[1 + (idx % (BaseChart.colors.length - 1))],
+        data: lines.map((_) => this.datum(ip, _)),
+      }))
+
+    if (series.length === 0) {
+      return undefined
+    }
+
+    // normalize against all series, so that they share one y axis
+    const data = BaseChart.normalize(
+      { impl: "ChartLine", stroke: BaseChart.colors[1], data: series.flatMap((_) => _.data) },
+      "count"
+    )
+
+    return {
+      key: metric,
+      title: metric,
+      desc: `Chart showing ${metric} over time, for each worker`,
+      series,
+      yAxes: [
+        {
+          label: metric,
+          format: "count",
+          y: data.y,
+          tickFormat: data.tickFormat,
+          tickValues: data.tickValues,
+        },
+        ...series.slice(1).map(() => undefined),
+      ],
+    }
+  }
+
+  private charts(props: Props): BaseChartProps[] {
+    return props.metrics.map((metric) => this.newChart(metric)).filter((_): _ is BaseChartProps => !!_)
+  }
+
+  public render() {
+    return <BaseChart charts={this.state.charts} minTime={this.props.minTime} maxTime={this.props.maxTime} />
+  }
+}
@@ -16,7 +16,7 @@
 
 import React from "react"
 
-import { Log } from "../controller/charts/vmstat"
+import { Log } from "../controller/charts/parsers/vmstat"
 import { HostMap } from "../controller/charts/LogRecord"
 import BaseChart, { BaseChartProps, TimeRange } from "./Chart"
 
@@ -0,0 +1,119 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+
+import { WorkerCount } from "../controller/charts/parsers/pods"
+import BaseChart, { BaseChartProps, Series, TimeRange } from "./Chart"
+
+type Props = TimeRange & {
+  /** Number of worker pods in each sample */
+  counts: WorkerCount[]
+
+  /** The MIN_WORKERS of the job definition, if known */
+  minWorkers?: number
+
+  /** The MAX_WORKERS of the job definition, if known */
+  maxWorkers?: number
+}
+
+type State = {
+  charts: BaseChartProps[]
+}
+
+/** Chart of the number of worker pods over time, against the autoscaler's bounds */
+export default class WorkersChart extends React.PureComponent<Props, State> {
+  public constructor(props: Props) {
+    super(props)
+    this.state = {
+      charts: this.charts(props),
+    }
+  }
+
+  /** Format a Victory datum for the Worker Count time series */
+  private readonly datumForSeries1 = (count: WorkerCount) => ({
+    name: "Workers Count",
+    x: count.timestamp - this.props.minTime,
+    y: count.nWorkers,
+  })
+
+  /** Format a Victory datum for a constant time series, e.g. Min Workers */
+  private datumForBound(name: string, bound: number, count: WorkerCount) {
+    return {
+      name: "Workers " + name,
+      x: count.timestamp - this.props.minTime,
+      y: bound,
+    }
+  }
+
+  private charts(props: Props): BaseChartProps[] {
+    if (props.counts.length === 0) {
+      return []
+    }
+
+    const series: Series[] = [
+      { impl: "ChartArea" as const, stroke: BaseChart.colors[1], data: props.counts.map(this.datumForSeries1) },
+    ]
+
+    if (props.minWorkers !== undefined) {
+      const minWorkers = props.minWorkers
+      series.push({
+        impl: "ChartDashedLine" as const,
+        stroke: BaseChart.colors[2],
+        data: props.counts.map((_) => this.datumForBound("Min", minWorkers, _)),
+      })
+    }
+
+    if (props.maxWorkers !== undefined) {
+      const maxWorkers = props.maxWorkers
+      series.push({
+        impl: "ChartDashedLine" as const,
+        stroke: BaseChart.colors[3],
+        data: props.counts.map((_) => this.datumForBound("Max", maxWorkers, _)),
+      })
+    }
+
+    // normalize against all series, so that they share one y axis
+    const data = BaseChart.normalize(
+      { impl: "ChartArea", stroke: BaseChart.colors[1], data: series.flatMap((_) => _.data) },
+      "count"
+    )
+
+    return [
+      {
+        key: "workers",
+        title: "Worker Pods",
+        desc: "Chart showing the number of worker pods over time",
+        series,
+        yAxes: [
+          {
+            label: "Workers",
+            format: "count",
+            y: data.y,
+            tickFormat: data.tickFormat,
+            tickValues: data.tickValues,
+            style: BaseChart.twoAxisStyle[0],
+          },
+          ...series.slice(1).map(() => undefined),
+        ],
+      },
+    ]
+  }
+
+  public render() {
+    return <BaseChart charts={this.state.charts} minTime={this.props.minTime} maxTime={this.props.maxTime} />
+  }
+}
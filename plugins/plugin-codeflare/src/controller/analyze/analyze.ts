@@ -0,0 +1,78 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import prettyMillis from "pretty-ms"
+import { Arguments, Capabilities, Table } from "@kui-shell/core"
+
+import RunDirectory from "../run/RunDirectory"
+import analyze, { Bottleneck, PhaseAnalysis } from "./bottlenecks"
+import { unquote } from "../../lib/util"
+
+/** Badge colors for each kind of `Bottleneck` */
+const colors: Record<Bottleneck, string> = {
+  "Data Loading": "yellow-background",
+  CPU: "blue-background",
+  GPU: "green-background",
+  Unknown: "gray-background",
+}
+
+/** @return a Kui `Table` with one row per phase of the run */
+function toTable(analyses: PhaseAnalysis[]): Table {
+  return {
+    header: {
+      name: "PHASE",
+      attributes: [
+        { key: "DURATION", value: "DURATION" },
+        { key: "BOUND BY", value: "BOUND BY" },
+        { key: "EVIDENCE", value: "EVIDENCE" },
+        { key: "SUGGESTIONS", value: "SUGGESTIONS" },
+      ],
+    },
+    body: analyses.map(({ phase, bottleneck, evidence, suggestions }) => ({
+      name: phase.name,
+      attributes: [
+        { key: "DURATION", value: prettyMillis(phase.end - phase.start, { compact: true }) },
+        { key: "BOUND BY", value: bottleneck, tag: "badge", css: colors[bottleneck] },
+        { key: "EVIDENCE", value: evidence.join(", ") || "-" },
+        { key: "SUGGESTIONS", value: suggestions.join("; ") || "-" },
+      ],
+    })),
+  }
+}
+
+/** @return a classification of the bottleneck of each phase of the run in the given log directory */
+export default async function analyzeCmd(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare analyze <logdir>")
+  }
+
+  const run = new RunDirectory(filepath, args.REPL)
+
+  const [torchEvents, gpuLogs, cpuLogs] = await Promise.all([
+    Promise.all([run.logs(), import("../events/torch")]).then(([content, _]) => _.default(content)),
+    run.gpu().catch(() => []),
+    run.vmstat().catch(() => []),
+  ])
+
+  const analyses = analyze(torchEvents, gpuLogs, cpuLogs)
+
+  if (Capabilities.isHeadless()) {
+    return JSON.stringify(analyses, undefined, 2)
+  } else {
+    return toTable(analyses)
+  }
+}
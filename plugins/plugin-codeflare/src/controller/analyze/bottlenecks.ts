@@ -0,0 +1,271 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TorchEvent } from "../events/torch"
+import { timeRange } from "../charts/timestamps"
+import { Log as GpuLog } from "../charts/parsers/gpu"
+import { Log as CpuLog } from "../charts/parsers/vmstat"
+
+/** What held back a phase of the run */
+export type Bottleneck = "Data Loading" | "CPU" | "GPU" | "Unknown"
+
+/** A span of the run that we classify as a unit, e.g. one Epoch */
+export type Phase = {
+  name: string
+  start: number
+  end: number
+}
+
+/** The measurements, over one `Phase`, from which we classify its `Bottleneck` */
+export type PhaseMetrics = {
+  /** Mean GPU utilization, in percent, if we have GPU samples for this phase */
+  gpuUtilization?: number
+
+  /** Mean CPU user+system time, in percent, if we have vmstat samples for this phase */
+  cpuBusy?: number
+
+  /** Mean CPU I/O wait, in percent, if we have vmstat samples for this phase */
+  iowait?: number
+
+  /** Share of the workers' time spent fetching data from upstream, in [0, 1] */
+  fetchShare: number
+
+  /** Share of the workers' time spent uncompressing data, in [0, 1] */
+  uncompressShare: number
+}
+
+export type PhaseAnalysis = {
+  phase: Phase
+  bottleneck: Bottleneck
+  metrics: PhaseMetrics
+
+  /** Human-readable observations that led to the `bottleneck` classification */
+  evidence: string[]
+
+  /** Human-readable suggestions for relieving the `bottleneck` */
+  suggestions: string[]
+}
+
+/** A phase whose workers spend at least this share of their time loading data is data-loading-bound */
+export const dataShareThreshold = 0.25
+
+/** CPU I/O wait, in percent, at or above which a phase with underused GPUs is data-loading-bound */
+export const iowaitThreshold = 20
+
+/** GPU utilization, in percent, at or above which a phase is GPU-bound */
+export const gpuBusyThreshold = 70
+
+/** CPU user+system time, in percent, at or above which a phase is CPU-bound */
+export const cpuBusyThreshold = 70
+
+/** GPU utilization, in percent, below which the GPUs are starved */
+export const gpuStarvedThreshold = 40
+
+function isDataEvent(evt: TorchEvent) {
+  return evt.type === "Data Fetch from Upstream" || evt.type === "Data Uncompress"
+}
+
+/** @return the end of the given event, treating an unfinished event as lasting until `now` */
+function endOf(evt: TorchEvent, now: number) {
+  return evt.endTimestamp !== undefined ? evt.endTimestamp : evt.state === "InProgress" ? now : evt.timestamp
+}
+
+/**
+ * Workers may run several training tasks back to back, e.g. one per
+ * seed, each starting over at Epoch 0.
+ *
+ * @return the given Epoch events, in order of start time, each with
+ * the index of its task on its worker
+ */
+function tasksOf(epochs: TorchEvent[]) {
+  const lastStep: Record<string, number> = {}
+  const tasks: Record<string, number> = {}
+
+  return epochs
+    .slice()
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((evt) => {
+      if (!(evt.ip in tasks)) {
+        tasks[evt.ip] = 0
+      } else if (evt.step <= lastStep[evt.ip]) {
+        tasks[evt.ip]++
+      }
+      lastStep[evt.ip] = evt.step
+      return { evt, task: tasks[evt.ip] }
+    })
+}
+
+/**
+ * The phases of a run are the initial loading of data, if the logs
+ * show any, followed by each training Epoch of each task, spanning
+ * from the earliest worker's start to the latest worker's end of that
+ * Epoch.
+ *
+ * @return the phases of the run, in order, or one phase spanning the
+ * run if the logs show no structure
+ */
+export function phases(events: TorchEvent[], runStart: number, runEnd: number): Phase[] {
+  const visible = events.filter((_) => _.state !== "Pending" && !_.hidden && _.timestamp > 0)
+
+  const data = visible.filter(isDataEvent)
+  const dataPhase: Phase[] =
+    data.length === 0
+      ? []
+      : [
+          {
+            name: "Data Loading",
+            start: data.reduce((min, _) => Math.min(min, _.timestamp), data[0].timestamp),
+            end: data.reduce((max, _) => Math.max(max, endOf(_, runEnd)), endOf(data[0], runEnd)),
+          },
+        ]
+
+  const epochs = tasksOf(visible.filter((_) => _.type === "Epoch"))
+  const multiTask = epochs.some((_) => _.task > 0)
+
+  const epochPhases = epochs.reduce((M, { evt, task }) => {
+    const key = `${task} ${evt.step}`
+    const phase = M[key]
+    const end = endOf(evt, runEnd)
+    if (!phase) {
+      M[key] = {
+        name: multiTask ? `Task ${task + 1} Epoch ${evt.step}` : `Epoch ${evt.step}`,
+        start: evt.timestamp,
+        end,
+      }
+    } else {
+      phase.start = Math.min(phase.start, evt.timestamp)
+      phase.end = Math.max(phase.end, end)
+    }
+    return M
+  }, {} as Record<string, Phase>)
+
+  const all = [...dataPhase, ...Object.values(epochPhases)].filter((_) => _.end > _.start)
+  return all.length > 0 ? all : [{ name: "Run", start: runStart, end: runEnd }]
+}
+
+/** @return the mean of the given values, ignoring unparseable samples, or `undefined` if there are none */
+function mean(values: number[]) {
+  const valid = values.filter((_) => !isNaN(_))
+  return valid.length === 0 ? undefined : valid.reduce((sum, _) => sum + _, 0) / valid.length
+}
+
+function within<T extends { timestamp: number }>(logs: T[], phase: Phase) {
+  return logs.filter((_) => _.timestamp >= phase.start && _.timestamp <= phase.end)
+}
+
+/** @return the share of the workers' time in the given `phase` that was spent in events of the given `type` */
+function shareOf(events: TorchEvent[], type: TorchEvent["type"], phase: Phase, now: number) {
+  const nWorkers = new Set(events.map((_) => _.ip)).size
+  const duration = phase.end - phase.start
+  if (nWorkers === 0 || duration <= 0) {
+    return 0
+  }
+
+  const busy = events
+    .filter((_) => _.type === type && _.state !== "Pending")
+    .reduce(
+      (sum, evt) => sum + Math.max(0, Math.min(endOf(evt, now), phase.end) - Math.max(evt.timestamp, phase.start)),
+      0
+    )
+
+  return busy / (nWorkers * duration)
+}
+
+function metricsOf(phase: Phase, events: TorchEvent[], gpuLogs: GpuLog[], cpuLogs: CpuLog[], now: number) {
+  const cpu = within(cpuLogs, phase)
+
+  return {
+    gpuUtilization: mean(within(gpuLogs, phase).map((_) => _.utilizationGPU)),
+    cpuBusy: mean(cpu.map((_) => _.user + _.system)),
+    iowait: mean(cpu.map((_) => _.iowait)),
+    fetchShare: shareOf(events, "Data Fetch from Upstream", phase, now),
+    uncompressShare: shareOf(events, "Data Uncompress", phase, now),
+  }
+}
+
+function percent(value: number) {
+  return value.toFixed(0) + "%"
+}
+
+/** @return the `Bottleneck` of a phase with the given `metrics`, with evidence and suggestions */
+function classify(metrics: PhaseMetrics): Pick<PhaseAnalysis, "bottleneck" | "evidence" | "suggestions"> {
+  const { gpuUtilization, cpuBusy, iowait, fetchShare, uncompressShare } = metrics
+  const dataShare = fetchShare + uncompressShare
+  const gpuUnderused = gpuUtilization === undefined || gpuUtilization < gpuBusyThreshold
+
+  const evidence = [
+    ...(gpuUtilization !== undefined ? [`GPU utilization ${percent(gpuUtilization)}`] : []),
+    ...(cpuBusy !== undefined ? [`CPU busy ${percent(cpuBusy)}`] : []),
+    ...(iowait !== undefined ? [`CPU I/O wait ${percent(iowait)}`] : []),
+    ...(dataShare > 0 ? [`${percent(dataShare * 100)} of worker time loading data`] : []),
+  ]
+
+  if (dataShare >= dataShareThreshold || (iowait !== undefined && iowait >= iowaitThreshold && gpuUnderused)) {
+    return {
+      bottleneck: "Data Loading",
+      evidence,
+      suggestions: [
+        "Increase the number of data loader workers",
+        fetchShare > 0 ? "Cache the dataset closer to the workers" : "Move the dataset to faster storage",
+        ...(uncompressShare > fetchShare ? ["Store the dataset uncompressed, or in a faster-to-decode format"] : []),
+      ],
+    }
+  } else if (gpuUtilization !== undefined && gpuUtilization >= gpuBusyThreshold) {
+    return {
+      bottleneck: "GPU",
+      evidence,
+      suggestions: ["Use mixed precision training", "Scale out to more GPU workers, or use larger GPUs"],
+    }
+  } else if (
+    (cpuBusy !== undefined && cpuBusy >= cpuBusyThreshold) ||
+    (gpuUtilization !== undefined && gpuUtilization < gpuStarvedThreshold)
+  ) {
+    return {
+      bottleneck: "CPU",
+      evidence,
+      suggestions: [
+        "Increase the number of data loader workers, or request more CPUs per worker",
+        "Move preprocessing onto the GPU",
+      ],
+    }
+  } else {
+    return { bottleneck: "Unknown", evidence, suggestions: [] }
+  }
+}
+
+/**
+ * Classify each phase of a run as data-loading-bound, CPU-bound, or
+ * GPU-bound, from the torch events of its job logs and its GPU and
+ * vmstat samples.
+ *
+ * @return one `PhaseAnalysis` per phase of the run, in order
+ */
+export default function analyze(
+  events: TorchEvent[],
+  gpuLogs: GpuLog[],
+  cpuLogs: CpuLog[],
+  now = Date.now()
+): PhaseAnalysis[] {
+  const samples = [...gpuLogs, ...cpuLogs].filter((_) => !isNaN(_.timestamp))
+  const { min, max } = timeRange(samples)
+  const runStart = samples.length === 0 ? now : min
+  const runEnd = samples.length === 0 ? now : max
+
+  return phases(events, runStart, runEnd).map((phase) => {
+    const metrics = metricsOf(phase, events, gpuLogs, cpuLogs, now)
+    return Object.assign({ phase, metrics }, classify(metrics))
+  })
+}
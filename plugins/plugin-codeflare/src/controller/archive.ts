@@ -0,0 +1,226 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { basename, join, resolve } from "path"
+import { Arguments } from "@kui-shell/core"
+import { DirEntry, FStat, VFS } from "@kui-shell/plugin-bash-like/fs"
+
+import { expand, unquote } from "../lib/util"
+
+/** Archive filepaths end in one of these */
+const archivePattern = /\.(tar\.gz|tgz|zip)$/
+
+/**
+ * @return the location of the archive that contains the given
+ * filepath, e.g. `/tmp/run.tar.gz` for `/tmp/run.tar.gz/logs/job.txt`,
+ * or `undefined` if the filepath does not traverse an archive
+ */
+function archiveOf(filepath: string): string | undefined {
+  const parts = resolve(filepath.replace(/^~/, process.env.HOME || "~")).split(/\//)
+  for (let idx = 1; idx <= parts.length; idx++) {
+    const prefix = parts.slice(0, idx).join("/")
+    if (archivePattern.test(prefix)) {
+      return prefix
+    }
+  }
+}
+
+/** @return the members of the given archive; we load the archive readers on demand */
+function readArchive(archive: string) {
+  return import("../lib/archive-readers").then((_) => _.readArchive(archive))
+}
+
+/**
+ * A read-only Kui VFS over the members of one .tar.gz or .zip
+ * archive, mounted at the location of the archive itself, so that
+ * e.g. `vfs fslice /tmp/run.tar.gz/logs/job.txt 0` reads that member
+ * without extracting the archive to disk.
+ */
+export class ArchiveVFS implements VFS {
+  public readonly isLocal = false
+  public readonly isVirtual = true
+
+  public constructor(public readonly mountPath: string) {}
+
+  /** @return the path, within the archive, of the given filepath */
+  private memberOf(filepath: string) {
+    const idx = filepath.indexOf(this.mountPath)
+    return idx < 0 ? filepath : filepath.slice(idx + this.mountPath.length).replace(/^\/+/, "")
+  }
+
+  private notFound(name: string) {
+    const error: Error & { code?: number } = new Error(`${name}: No such file in ${basename(this.mountPath)}`)
+    error.code = 404
+    return error
+  }
+
+  private async member(filepath: string) {
+    const name = this.memberOf(filepath)
+    const data = (await readArchive(this.mountPath)).get(name)
+    if (!data) {
+      throw this.notFound(name)
+    }
+    return data
+  }
+
+  private dirEntry(name: string, isDirectory: boolean, size: number): DirEntry {
+    return {
+      name: basename(name),
+      nameForDisplay: basename(name),
+      path: join(this.mountPath, name),
+      stats: { size, mtimeMs: 0, mode: 0, uid: 0, gid: 0 },
+      dirent: {
+        mount: { isLocal: this.isLocal, mountPath: this.mountPath },
+        isFile: !isDirectory,
+        isDirectory,
+        isSymbolicLink: false,
+        isSpecial: false,
+        isExecutable: false,
+        permissions: "",
+        username: "",
+      },
+    }
+  }
+
+  /** @return the immediate children of each of the given directories of the archive */
+  public async ls(_: Pick<Arguments, "REPL">, filepaths: string[]): Promise<DirEntry[]> {
+    const members = await readArchive(this.mountPath)
+
+    return filepaths.flatMap((filepath) => {
+      const dir = this.memberOf(filepath).replace(/\/+$/, "")
+      const prefix = dir ? dir + "/" : ""
+      const children = new Map<string, DirEntry>()
+
+      members.forEach((data, name) => {
+        if (name.startsWith(prefix)) {
+          const [child, ...rest] = name.slice(prefix.length).split(/\//)
+          if (child && !children.has(child)) {
+            children.set(child, this.dirEntry(prefix + child, rest.length > 0, rest.length > 0 ? 0 : data.length))
+          }
+        }
+      })
+
+      return Array.from(children.values())
+    })
+  }
+
+  public async fstat(
+    _: Pick<Arguments, "REPL">,
+    filepath: string,
+    withData?: boolean,
+    enoentOk?: boolean
+  ): Promise<FStat> {
+    const name = this.memberOf(filepath)
+    const members = await readArchive(this.mountPath)
+    const data = members.get(name)
+    const isDirectory = !data && (name === "" || Array.from(members.keys()).some((_) => _.startsWith(name + "/")))
+
+    if (!data && !isDirectory) {
+      if (enoentOk) {
+        return { viewer: "open", filepath, fullpath: filepath, size: 0, isDirectory: false }
+      }
+      throw this.notFound(name)
+    }
+
+    return {
+      viewer: "open",
+      filepath,
+      fullpath: join(this.mountPath, name),
+      size: data ? data.length : 0,
+      isDirectory,
+      data: withData && data ? data.toString("utf-8") : undefined,
+    }
+  }
+
+  public async fslice(filename: string, offset: number, length?: number): Promise<string> {
+    const data = await this.member(filename)
+    return data.subarray(offset, length === undefined ? undefined : offset + length).toString("utf-8")
+  }
+
+  private async readonly(): Promise<never> {
+    throw new Error(`${basename(this.mountPath)} is a read-only archive`)
+  }
+
+  public cp() {
+    return this.readonly()
+  }
+
+  public rm() {
+    return this.readonly()
+  }
+
+  public fwrite() {
+    return this.readonly()
+  }
+
+  public mkdir() {
+    return this.readonly()
+  }
+
+  public rmdir() {
+    return this.readonly()
+  }
+
+  public gzip() {
+    return this.readonly()
+  }
+
+  public gunzip() {
+    return this.readonly()
+  }
+
+  public zip() {
+    return this.readonly()
+  }
+
+  public unzip() {
+    return this.readonly()
+  }
+
+  /** @return the number of matches of the given pattern across the given members */
+  public async grep(_: Pick<Arguments, "REPL">, pattern: string, filenames: string[]) {
+    const regexp = new RegExp(pattern)
+    const contents = await Promise.all(filenames.map((_) => this.member(_).then((data) => data.toString("utf-8"))))
+    return contents.reduce((sum, content) => sum + content.split(/\n/).filter((_) => regexp.test(_)).length, 0)
+  }
+}
+
+/** The archives we have mounted so far */
+const mounted = new Set<string>()
+
+/** @return whether the given filepath is, or lies within, a .tar.gz or .zip archive */
+export function isArchive(filepath: string) {
+  return archiveOf(expand(filepath)) !== undefined
+}
+
+/**
+ * Mount a read-only VFS for each archive named on the command line,
+ * so that the members of a run archived as .tar.gz or .zip can be
+ * read just as those of a run directory.
+ */
+export async function mountArchives(args: Pick<Arguments, "argvNoOptions">) {
+  const archives = args.argvNoOptions
+    .map((_) => archiveOf(expand(unquote(_))))
+    .filter((_): _ is string => _ !== undefined && !mounted.has(_))
+
+  if (archives.length > 0) {
+    const { mount } = await import("@kui-shell/plugin-bash-like/fs")
+    archives.forEach((archive) => {
+      mount(new ArchiveVFS(archive))
+      mounted.add(archive)
+    })
+  }
+}
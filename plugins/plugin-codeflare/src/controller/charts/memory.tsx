@@ -0,0 +1,52 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { Arguments, ReactResponse } from "@kui-shell/core"
+
+import { timeRange } from "./timestamps"
+import RunDirectory from "../run/RunDirectory"
+import { toHostMap } from "./LogRecord"
+import { Log } from "./parsers/memory"
+
+import ChartGrid from "../../components/ChartGrid"
+import MemoryChart from "../../components/MemoryChart"
+import { unquote } from "../../lib/util"
+
+function chart(logs: Log[]): ReactResponse {
+  const { min, max } = timeRange(logs)
+
+  return {
+    react: (
+      <ChartGrid>
+        <MemoryChart logs={toHostMap(logs)} minTime={min} maxTime={max} />
+      </ChartGrid>
+    ),
+  }
+}
+
+export default async function chartCmd(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error(`Usage chart memory ${filepath}`)
+  }
+
+  // anchor the manufactured timestamps at the start of the job
+  const run = new RunDirectory(filepath, args.REPL)
+  const startTime = (await run.startTime()) || Date.now()
+
+  return chart(await run.memory(startTime))
+}
@@ -0,0 +1,48 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { Arguments, ReactResponse } from "@kui-shell/core"
+
+import { timeRange } from "./timestamps"
+import { toHostMap } from "./LogRecord"
+import RunDirectory from "../run/RunDirectory"
+import { Log, metricNames, parseContent } from "./parsers/metrics"
+
+import ChartGrid from "../../components/ChartGrid"
+import TrainingMetricsChart from "../../components/TrainingMetricsChart"
+import { unquote } from "../../lib/util"
+
+function chart(logs: Log[]): ReactResponse {
+  const { min, max } = timeRange(logs)
+
+  return {
+    react: (
+      <ChartGrid>
+        <TrainingMetricsChart logs={toHostMap(logs)} metrics={metricNames(logs)} minTime={min} maxTime={max} />
+      </ChartGrid>
+    ),
+  }
+}
+
+export default async function chartCmd(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error(`Usage chart metrics ${filepath}`)
+  }
+
+  return chart(parseContent(await new RunDirectory(filepath, args.REPL).read("logs")))
+}
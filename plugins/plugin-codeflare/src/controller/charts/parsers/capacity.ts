@@ -0,0 +1,86 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import LogRecord, { HostMap } from "../LogRecord"
+import { parseQuantity, parseSamples } from "../samples"
+
+/** One node in one sample of node-stats.txt; cpu is in cores, memory and disk in bytes */
+export type Log = LogRecord<{
+  nodeType: string
+  gpuCapacity: number
+  gpuFree: number
+  cpuCapacity: number
+  cpuFree: number
+  memoryCapacity: number
+  memoryFree: number
+  diskCapacity: number
+  diskFree: number
+}>
+
+/** @return `Log` records, one per node per sample */
+export function parseContent(content: string): Log[] {
+  return parseSamples(content).flatMap(({ timestamp, rows }) =>
+    rows.map((row) => ({
+      hostname: row.NAME,
+      timestamp,
+      nodeType: row.Type || "Unknown",
+      gpuCapacity: parseQuantity(row.GPUCap),
+      gpuFree: parseQuantity(row.GPUFree),
+      cpuCapacity: parseQuantity(row.CPUCap),
+      cpuFree: parseQuantity(row.CPUFree),
+      memoryCapacity: parseQuantity(row.MemCap),
+      memoryFree: parseQuantity(row.MemFree),
+      diskCapacity: parseQuantity(row.DiskCap),
+      diskFree: parseQuantity(row.DiskFree),
+    }))
+  )
+}
+
+/**
+ * Sum the capacity and free resources of all nodes of a given node
+ * type, for each sample.
+ *
+ * @return a map from node type to the summed records
+ */
+export function toTypeMap(records: Log[]): HostMap<Log> {
+  const sums = records.reduce((M, record) => {
+    const key = `${record.nodeType} ${record.timestamp}`
+    const sum = M[key]
+    if (!sum) {
+      M[key] = Object.assign({}, record, { hostname: record.nodeType })
+    } else {
+      sum.gpuCapacity += record.gpuCapacity
+      sum.gpuFree += record.gpuFree
+      sum.cpuCapacity += record.cpuCapacity
+      sum.cpuFree += record.cpuFree
+      sum.memoryCapacity += record.memoryCapacity
+      sum.memoryFree += record.memoryFree
+      sum.diskCapacity += record.diskCapacity
+      sum.diskFree += record.diskFree
+    }
+    return M
+  }, {} as Record<string, Log>)
+
+  return Object.values(sums)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .reduce((M, record) => {
+      if (!M[record.nodeType]) {
+        M[record.nodeType] = []
+      }
+      M[record.nodeType].push(record)
+      return M
+    }, {} as HostMap<Log>)
+}
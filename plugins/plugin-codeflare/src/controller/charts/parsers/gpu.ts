@@ -0,0 +1,249 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+
+import LogRecord, { HostMap } from "../LogRecord"
+
+export type Log = LogRecord<{
+  gpuType: string
+  utilizationGPU: number
+  utilizationMemory: number
+  totalMemory: number
+  temperatureGPU: number
+
+  /** The nvidia-smi index of this GPU within its host, if the capture includes it */
+  gpuIndex?: number
+
+  /** The UUID of this GPU, if the capture includes it */
+  gpuUUID?: string
+
+  /** All numeric metrics of this record, keyed by nvidia-smi metric label, e.g. `Power.Draw` */
+  metrics: Record<string, number>
+
+  /** The units of `metrics`, e.g. `W` for `Power.Draw` */
+  units: Record<string, string>
+}>
+
+/** The metrics that we know how to chart by default, keyed by nvidia-smi metric label */
+const wellKnownMetrics: Record<string, "utilizationGPU" | "utilizationMemory" | "totalMemory" | "temperatureGPU"> = {
+  "Utilization.GPU": "utilizationGPU",
+  "Utilization.Memory": "utilizationMemory",
+  "Memory.Total": "totalMemory",
+  "Temperature.GPU": "temperatureGPU",
+}
+
+/** The metric label whose value is the name of the GPU model */
+const gpuTypeLabel = "GPUType"
+
+/** The metric label whose value is the index of the GPU within its host */
+const gpuIndexLabel = "Index"
+
+/** The metric label whose value is the UUID of the GPU */
+const gpuUUIDLabel = "UUID"
+
+function formatLogs(logs: string) {
+  return logs
+    .split(/\n\n/)
+    .flatMap((line) => line.trim())
+    .map((line) => line.split(/\n/))
+}
+
+/**
+ * Parse one line of nvidia-smi output, e.g. ` 16384 MiB Memory.Total\t\t\thost 2022/07/18 06:13:48.234`
+ *
+ * @return the value, metric label, hostname, and timestamp of that line
+ */
+function parseLine(line: string) {
+  const match = line.match(/^\s*(.*?)\s*([A-Za-z][\w.]*)\t+(\S+)\s+(\S+\s+\S+)\s*$/)
+  if (match) {
+    return {
+      value: match[1],
+      label: match[2],
+      hostname: match[3],
+      timestamp: new Date(match[4]).getTime(),
+    }
+  }
+}
+
+/**
+ * Parse one nvidia-smi record, i.e. the lines for one GPU in one
+ * sample. Each line carries its own metric label, so any set of
+ * nvidia-smi query fields, in any order, is acceptable.
+ */
+export function parseRecord(logLine: string[]) {
+  const newObj: Log = {
+    hostname: "",
+    timestamp: NaN,
+    gpuType: "",
+    utilizationGPU: NaN,
+    utilizationMemory: NaN,
+    totalMemory: NaN,
+    temperatureGPU: NaN,
+    metrics: {},
+    units: {},
+  }
+
+  logLine.forEach((line) => {
+    const parsed = parseLine(line)
+    if (parsed) {
+      const { value, label, hostname, timestamp } = parsed
+      if (!newObj.hostname) {
+        newObj.hostname = hostname
+        newObj.timestamp = timestamp
+      }
+
+      if (label === gpuTypeLabel) {
+        newObj.gpuType = value
+      } else if (label === gpuIndexLabel) {
+        newObj.gpuIndex = parseInt(value, 10)
+      } else if (label === gpuUUIDLabel) {
+        newObj.gpuUUID = value
+      } else {
+        const metric = parseFloat(value)
+        if (!isNaN(metric)) {
+          newObj.metrics[label] = metric
+          newObj.units[label] = value.replace(/^[\d.]+\s*/, "")
+
+          const field = wellKnownMetrics[label]
+          if (field) {
+            newObj[field] = metric
+          }
+        }
+      }
+    }
+  })
+
+  return newObj
+}
+
+/**
+ * Parse any complete records in `lines`, i.e. those followed by a
+ * blank line, and add them to `M`.
+ *
+ * @return the trailing lines that do not yet form a complete record
+ */
+export function collateLines(M: Log[], lines: string[]): string[] {
+  let start = 0
+  for (let idx = 0; idx < lines.length; idx++) {
+    if (lines[idx].trim().length === 0) {
+      if (idx > start) {
+        const record = parseRecord(lines.slice(start, idx))
+        if (record.hostname) {
+          M.push(record)
+        }
+      }
+      start = idx + 1
+    }
+  }
+
+  return lines.slice(start)
+}
+
+/** @return the labels of the metrics present in `logs`, other than those we chart by default */
+export function extraMetrics(logs: Log[]): string[] {
+  return Array.from(new Set(logs.flatMap((_) => Object.keys(_.metrics))))
+    .filter((label) => !wellKnownMetrics[label])
+    .sort()
+}
+
+/** @return a label that distinguishes the GPUs of one host, e.g. `GPU3` */
+export function deviceOf(log: Log): string {
+  if (log.gpuIndex !== undefined && !isNaN(log.gpuIndex)) {
+    return `GPU${log.gpuIndex}`
+  } else if (log.gpuUUID) {
+    return log.gpuUUID.replace(/^GPU-/, "").slice(0, 8)
+  } else {
+    return "GPU"
+  }
+}
+
+/** @return the records of one host, grouped by GPU */
+export function toDeviceMap(lines: Log[]): HostMap<Log> {
+  return lines.reduce((M, line) => {
+    const device = deviceOf(line)
+    if (!M[device]) {
+      M[device] = []
+    }
+    M[device].push(line)
+    return M
+  }, {} as HostMap<Log>)
+}
+
+/**
+ * Combine the records of the GPUs of one host into one record per
+ * sample. Utilization and the extra metrics are averaged across the
+ * GPUs, total memory is summed, and temperature is the hottest GPU. A
+ * new sample begins when we see a GPU for the second time.
+ *
+ * @return one aggregate record per sample
+ */
+export function aggregate(lines: Log[]): Log[] {
+  const samples: Log[][] = []
+  let devices = new Set<string>()
+
+  lines.forEach((line) => {
+    const device = deviceOf(line)
+    if (samples.length === 0 || devices.has(device)) {
+      samples.push([])
+      devices = new Set()
+    }
+    devices.add(device)
+    samples[samples.length - 1].push(line)
+  })
+
+  return samples.map((sample) => {
+    const sum = (get: (_: Log) => number) => sample.reduce((sum, _) => sum + get(_), 0)
+
+    const metrics = Array.from(new Set(sample.flatMap((_) => Object.keys(_.metrics)))).reduce((M, label) => {
+      const values = sample.filter((_) => label in _.metrics).map((_) => _.metrics[label])
+      M[label] = values.reduce((sum, value) => sum + value, 0) / values.length
+      return M
+    }, {} as Log["metrics"])
+
+    return Object.assign({}, sample[0], {
+      gpuIndex: undefined,
+      gpuUUID: undefined,
+      utilizationGPU: sum((_) => _.utilizationGPU) / sample.length,
+      utilizationMemory: sum((_) => _.utilizationMemory) / sample.length,
+      totalMemory: sum((_) => _.totalMemory),
+      temperatureGPU: Math.max(...sample.map((_) => _.temperatureGPU)),
+      metrics,
+    })
+  })
+}
+
+/**
+ * Parse the `--metrics` option, e.g. `--metrics Power.Draw,Clocks.SM`
+ * or `--metrics all`.
+ *
+ * @return the requested metric labels, with `all` expanded to every
+ * extra metric present in `logs`
+ */
+export function selectedMetrics(option: string | undefined, logs: Log[]): string[] {
+  if (!option) {
+    return []
+  }
+
+  const labels = option.split(/,/).filter(Boolean)
+  return labels.includes("all") ? extraMetrics(logs) : labels
+}
+
+/** @return `Log` records, one per GPU per sample */
+export function parseContent(content: string): Log[] {
+  const formattedLogs = formatLogs(stripAnsi(content))
+  return formattedLogs.map((logLine) => parseRecord(logLine)).filter((_) => !!_.hostname)
+}
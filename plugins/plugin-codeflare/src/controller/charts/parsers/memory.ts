@@ -0,0 +1,93 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+
+import LogRecord from "../LogRecord"
+
+export type Log = LogRecord<{
+  /** Index of the sample that this record belongs to */
+  sample: number
+
+  /** Memory in use by the pod, in bytes */
+  usedBytes: number
+
+  /** Memory limit of the pod, in bytes */
+  limitBytes: number
+}>
+
+/**
+ * pod-memory.txt does not carry timestamps, so we manufacture them
+ * from the sample index. The memory capture samples in lockstep with
+ * pod-stats.txt, so we prefer the interval evidenced by the latter
+ * (see `samplingInterval()`); this is the interval of those captures,
+ * for when we have no pod-stats.txt to go on, e.g. when following a
+ * live run.
+ */
+export const defaultSamplingIntervalMillis = 10 * 1000
+
+/**
+ * @return the sample index for a record of the given `hostname`; a
+ * new sample starts whenever we see a pod for a second time in the
+ * current sample
+ */
+function sampleIndexFor(M: Log[], hostname: string): number {
+  if (M.length === 0) {
+    return 0
+  }
+
+  const currentSample = M[M.length - 1].sample
+  for (let idx = M.length - 1; idx >= 0 && M[idx].sample === currentSample; idx--) {
+    if (M[idx].hostname === hostname) {
+      return currentSample + 1
+    }
+  }
+
+  return currentSample
+}
+
+/** Add the record for the given log `line`, if it is well-formed, to `M` */
+export function collateLine(
+  M: Log[],
+  line: string,
+  startTime = 0,
+  intervalMillis = defaultSamplingIntervalMillis
+): Log[] {
+  const cells = line.trim().split(/\s+/)
+  if (cells.length === 3) {
+    const hostname = cells[0]
+    const usedBytes = parseInt(cells[1], 10)
+    const limitBytes = parseInt(cells[2], 10)
+
+    if (!isNaN(usedBytes) && !isNaN(limitBytes)) {
+      const sample = sampleIndexFor(M, hostname)
+      const timestamp = startTime + sample * intervalMillis
+      M.push({ hostname, timestamp, sample, usedBytes, limitBytes })
+    }
+  }
+
+  return M
+}
+
+/**
+ * @return `Log` records, with timestamps relative to the given
+ * `startTime`, spaced by the given sampling interval
+ */
+export function parseContent(content: string, startTime = 0, intervalMillis = defaultSamplingIntervalMillis): Log[] {
+  return stripAnsi(content)
+    .split(/\n/)
+    .reduce((M, line) => collateLine(M, line, startTime, intervalMillis), [] as Log[])
+}
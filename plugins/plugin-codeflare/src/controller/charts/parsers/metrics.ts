@@ -0,0 +1,185 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+
+import LogRecord from "../LogRecord"
+
+/** One reported value of one training metric, e.g. `loss` or `it/s`; the `hostname` is the ip of the worker */
+export type Log = LogRecord<{
+  metric: string
+  value: number
+}>
+
+/** Per-worker parsing context */
+type Context = {
+  /** The most recent timestamp that this worker printed */
+  lastTimestamp?: number
+
+  /** For each tqdm progress bar, by label, the timestamp at which it started */
+  bars: Record<string, number>
+
+  /** The elapsed time of the most recent update to each tqdm progress bar, by label */
+  elapsed: Record<string, number>
+}
+
+/** These tqdm/Lightning postfix and log dict entries are bookkeeping, not metrics */
+const notMetrics = ["v_num", "epoch", "step"]
+
+/** How far back to look for a repeat of a metric value */
+const repeatWindow = 32
+
+/** @return the given tqdm elapsed time, e.g. `01:02` or `1:02:03`, in milliseconds */
+function parseElapsed(elapsed: string) {
+  return elapsed.split(/:/).reduce((sum, part) => sum * 60 + parseInt(part, 10), 0) * 1000
+}
+
+/** @return the timestamp printed on the given line, if any */
+function parseTimestamp(line: string) {
+  const match = line.match(/(\d+\/\d+\/\d{4}\s+\d+:\d+:\d+|\d{4}-\d+-\d+\s+\d+:\d+:\d+)/)
+  if (match) {
+    const timestamp = new Date(match[1]).getTime()
+    return isNaN(timestamp) ? undefined : timestamp
+  }
+}
+
+/** Record one metric value, skipping repeats, e.g. the `eval_loss = ...` summaries of the eval result dicts */
+function push(M: Log[], hostname: string, timestamp: number, metric: string, value: number) {
+  if (!isNaN(value) && !notMetrics.includes(metric)) {
+    // repeats are printed in quick succession, so we need only look at the most recent few records
+    const repeat = M.slice(-repeatWindow).some(
+      (_) => _.hostname === hostname && _.metric === metric && _.timestamp === timestamp && _.value === value
+    )
+    if (!repeat) {
+      M.push({ hostname, timestamp, metric, value })
+    }
+  }
+}
+
+/**
+ * Bars nested in an epoch, e.g. the `Iteration` bars of HF Trainer,
+ * restart with each epoch, usually long after the most recent
+ * timestamped line. The epoch bars, e.g. `Epoch` or Lightning's `Epoch
+ * 3`, tell us how far along we are.
+ *
+ * @return our best guess of the current time, as of the start of a
+ * new bar with the given `label`
+ */
+function currentTime(context: Context, label: string) {
+  return Object.keys(context.bars)
+    .filter((_) => _ !== label && /^Epoch\b/.test(_))
+    .reduce(
+      (now: number | undefined, _) => Math.max(now || 0, context.bars[_] + context.elapsed[_]),
+      context.lastTimestamp
+    )
+}
+
+/**
+ * Fold one tqdm progress line, e.g.
+ * `Epoch 3:  45%|████▌     | 450/1000 [00:30<00:37, 14.8it/s, loss=0.693, v_num=0]`
+ * into `M`. The timestamp of each update is the start of the bar plus
+ * the elapsed time that tqdm reports.
+ */
+function collateProgress(M: Log[], ip: string, context: Context, match: RegExpMatchArray) {
+  const label = match[1].trim()
+  const elapsed = parseElapsed(match[2])
+  const postfix = match[3]
+
+  if (!(label in context.bars) || elapsed < context.elapsed[label]) {
+    // a new bar, or tqdm restarted this one, e.g. for the next epoch
+    const now = currentTime(context, label)
+    if (now === undefined) {
+      return
+    }
+    context.bars[label] = now - elapsed
+  }
+  context.elapsed[label] = elapsed
+  const timestamp = context.bars[label] + elapsed
+
+  // the outer `Epoch` bar of HF Trainer counts epochs, and evaluation bars do not reflect training throughput
+  const rateMatch = postfix.match(/([\d.]+)(it\/s|s\/it)/)
+  if (rateMatch && label !== "Epoch" && !/^(Evaluat|Validat)/.test(label)) {
+    const rate = parseFloat(rateMatch[1])
+    push(M, ip, timestamp, "it/s", rateMatch[2] === "it/s" ? rate : rate > 0 ? 1 / rate : NaN)
+  }
+
+  const pattern = /([A-Za-z_][\w/.-]*)=([-\d.e+]+)/g
+  for (let match = pattern.exec(postfix); match; match = pattern.exec(postfix)) {
+    push(M, ip, timestamp, match[1], parseFloat(match[2]))
+  }
+}
+
+/**
+ * Collate the training metrics in the given job logs: the tqdm
+ * progress postfix metrics and throughput, the log dicts of
+ * HuggingFace Trainer, e.g. `{'eval_loss': 0.69, 'epoch': 6.0}`, and
+ * `eval_acc = 0.56` result lines.
+ *
+ * @return one `Log` record per reported metric value, keyed by worker ip
+ */
+export function parseContent(content: string): Log[] {
+  const contexts: Record<string, Context> = {}
+
+  return stripAnsi(content)
+    .split(/\n/)
+    .reduce((M, line) => {
+      const ipMatch = line.match(/ip=([\d.]+)\)/)
+      if (!ipMatch) {
+        return M
+      }
+
+      const ip = ipMatch[1]
+      const context = contexts[ip] || (contexts[ip] = { bars: {}, elapsed: {} })
+      const rest = line.slice(line.indexOf(")") + 1)
+
+      const timestamp = parseTimestamp(rest)
+      if (timestamp !== undefined) {
+        context.lastTimestamp = timestamp
+      }
+
+      const progressMatch = rest.match(/([^:|]+):\s+\d+%\|[^|]*\|\s*\d+\/\d+\s+\[([\d:]+)<[^,\]]*,?([^\]]*)\]/)
+      if (progressMatch) {
+        collateProgress(M, ip, context, progressMatch)
+        return M
+      }
+
+      if (context.lastTimestamp === undefined) {
+        return M
+      }
+
+      const dictMatch = rest.match(/\{('[^']+':\s*[^,}]+,?\s*)+\}/)
+      if (dictMatch) {
+        const pattern = /'([^']+)':\s*([-\d.e+]+)/g
+        for (let match = pattern.exec(dictMatch[0]); match; match = pattern.exec(dictMatch[0])) {
+          push(M, ip, context.lastTimestamp, match[1], parseFloat(match[2]))
+        }
+        return M
+      }
+
+      const resultMatch = rest.match(/\s(eval_\w+)\s+=\s+([-\d.e+]+)\s*$/)
+      if (resultMatch) {
+        push(M, ip, context.lastTimestamp, resultMatch[1], parseFloat(resultMatch[2]))
+      }
+
+      return M
+    }, [] as Log[])
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/** @return the distinct metric names in the given records, in order of first appearance */
+export function metricNames(logs: Log[]): string[] {
+  return Array.from(new Set(logs.map((_) => _.metric)))
+}
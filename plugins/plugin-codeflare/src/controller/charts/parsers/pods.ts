@@ -0,0 +1,105 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import LogRecord from "../LogRecord"
+import { timeRange } from "../timestamps"
+import { Sample, parseQuantity, parseSamples } from "../samples"
+
+/** One pod in one sample of pod-stats.txt; cpu is in cores, memory in bytes */
+export type Log = LogRecord<{
+  gpuRequest: number
+  cpuRequest: number
+  memoryRequest: number
+}>
+
+/** The span of samples in which we saw a given pod */
+export type Lifetime = {
+  /** Pod name */
+  name: string
+
+  /** The resource requests of the pod, as of its first sample */
+  request: Log
+
+  /** Timestamp of the first sample that included this pod */
+  firstSeen: number
+
+  /** Timestamp of the last sample that included this pod; `undefined` if the pod is present in the final sample */
+  lastSeen?: number
+}
+
+/** The number of worker pods in one sample */
+export type WorkerCount = {
+  timestamp: number
+  nWorkers: number
+}
+
+/** @return whether the given pod is a Ray worker, as opposed to the Ray head */
+export function isWorker(podName: string) {
+  return /worker/.test(podName)
+}
+
+/** @return `Log` records, one per pod per sample */
+export function toLogs(samples: Sample[]): Log[] {
+  return samples.flatMap(({ timestamp, rows }) =>
+    rows.map((row) => ({
+      hostname: row.NAME,
+      timestamp,
+      gpuRequest: parseQuantity(row.GPUReq),
+      cpuRequest: parseQuantity(row.CPUReq),
+      memoryRequest: parseQuantity(row.MemReq),
+    }))
+  )
+}
+
+/** @return `Log` records, one per pod per sample */
+export function parseContent(content: string): Log[] {
+  return toLogs(parseSamples(content))
+}
+
+/** @return the `Lifetime` of each pod, ordered by first appearance */
+export function lifetimes(records: Log[]): Lifetime[] {
+  const { max } = timeRange(records)
+
+  const M = records.reduce((M, record) => {
+    const lifetime = M[record.hostname]
+    if (!lifetime) {
+      M[record.hostname] = {
+        name: record.hostname,
+        request: record,
+        firstSeen: record.timestamp,
+        lastSeen: record.timestamp,
+      }
+    } else {
+      lifetime.lastSeen = Math.max(lifetime.lastSeen || 0, record.timestamp)
+    }
+    return M
+  }, {} as Record<string, Lifetime>)
+
+  return Object.values(M)
+    .map((lifetime) => (lifetime.lastSeen === max ? Object.assign(lifetime, { lastSeen: undefined }) : lifetime))
+    .sort((a, b) => a.firstSeen - b.firstSeen || a.name.localeCompare(b.name))
+}
+
+/**
+ * @return the number of worker pods in each sample, including those
+ * samples in which there were no pods at all
+ */
+export function workerCounts(samples: Sample[]): WorkerCount[] {
+  return samples.map(({ timestamp, rows }) => ({
+    timestamp,
+    nWorkers: rows.filter((row) => isWorker(row.NAME)).length,
+  }))
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import LogRecord from "../LogRecord"
+
+export type Log = LogRecord<{
+  user: number
+  system: number
+  idle: number
+  iowait: number
+  freeMemory: number
+}>
+
+/** log line -> Log object */
+export function parseLine(line: string): Log {
+  const cells = line.split(/\s+/)
+
+  const N = cells.length
+  const hostname = cells[0]
+  const freeMemory = parseInt(cells[4], 10)
+  const user = parseInt(cells[13], 10)
+  const system = parseInt(cells[14], 10)
+  const idle = parseInt(cells[15], 10)
+  const iowait = parseInt(cells[16], 10)
+  const timestamp = new Date(cells[N - 2] + " " + cells[N - 1]).getTime()
+
+  return {
+    hostname,
+    timestamp,
+    user,
+    system,
+    idle,
+    iowait,
+    freeMemory,
+  }
+}
+
+export function filter(line: string): boolean {
+  return !!line && !/----|swpd/.test(line)
+}
+
+/** @return `Log` records, one per pod per sample, ordered by pod */
+export function parseContent(content: string): Log[] {
+  return content
+    .split(/\n/) // now we have rows
+    .filter(filter) // filter those rows
+    .map(parseLine) // parse the line a `Log` object
+    .sort((a, b) => a.hostname.localeCompare(b.hostname))
+}
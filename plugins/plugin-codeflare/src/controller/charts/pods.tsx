@@ -0,0 +1,75 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import prettyBytes from "pretty-bytes"
+import { Arguments, ReactResponse } from "@kui-shell/core"
+
+import { Sample } from "./samples"
+import { timeRange } from "./timestamps"
+import RunDirectory from "../run/RunDirectory"
+import { Lifetime, isWorker, lifetimes, toLogs, workerCounts } from "./parsers/pods"
+
+import ChartGrid from "../../components/ChartGrid"
+import Description from "../../components/Description"
+import WorkersChart from "../../components/WorkersChart"
+import { unquote } from "../../lib/util"
+
+/** @return a `Description` model of the lifetimes of the worker pods */
+function lifetimeSummary(lifetimes: Lifetime[]) {
+  const time = (timestamp: number) => new Date(timestamp).toLocaleTimeString()
+
+  return lifetimes
+    .filter((_) => isWorker(_.name))
+    .map(({ name, request, firstSeen, lastSeen }) => {
+      const span = `${time(firstSeen)} – ${lastSeen === undefined ? "still running" : time(lastSeen)}`
+      const memory = prettyBytes(request.memoryRequest, { binary: true })
+      const requests = `GPU ${request.gpuRequest}, CPU ${request.cpuRequest}, Memory ${memory}`
+      return { label: name, value: `${span} (${requests})` }
+    })
+}
+
+function chart(samples: Sample[], minWorkers?: number, maxWorkers?: number): ReactResponse {
+  const counts = workerCounts(samples)
+  const { min, max } = timeRange(counts)
+
+  return {
+    react: (
+      <React.Fragment>
+        <ChartGrid>
+          <WorkersChart counts={counts} minWorkers={minWorkers} maxWorkers={maxWorkers} minTime={min} maxTime={max} />
+        </ChartGrid>
+        <Description summaryData={lifetimeSummary(lifetimes(toLogs(samples)))} />
+      </React.Fragment>
+    ),
+  }
+}
+
+export default async function chartCmd(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error(`Usage chart pods ${filepath}`)
+  }
+
+  const run = new RunDirectory(filepath, args.REPL)
+  const [samples, jobInfo] = await Promise.all([run.podSamples(), run.jobDefinition()])
+
+  const env = jobInfo && jobInfo.runtime_env && jobInfo.runtime_env.env_vars ? jobInfo.runtime_env.env_vars : {}
+  const minWorkers = env.MIN_WORKERS ? parseInt(env.MIN_WORKERS, 10) : undefined
+  const maxWorkers = env.MAX_WORKERS ? parseInt(env.MAX_WORKERS, 10) : undefined
+
+  return chart(samples, minWorkers, maxWorkers)
+}
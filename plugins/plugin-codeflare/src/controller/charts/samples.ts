@@ -0,0 +1,106 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+
+/** One row of a sample table, keyed by the column names of the table header */
+export type Row = Record<string, string>
+
+/**
+ * The node-stats.txt and pod-stats.txt captures consist of a sequence
+ * of `Sample <ISO timestamp>` blocks, each followed by a table.
+ */
+export type Sample = {
+  timestamp: number
+  rows: Row[]
+}
+
+const multipliers: Record<string, number> = {
+  m: 0.001,
+  k: 1000,
+  K: 1000,
+  M: 1000 ** 2,
+  G: 1000 ** 3,
+  T: 1000 ** 4,
+  Ki: 1024,
+  Mi: 1024 ** 2,
+  Gi: 1024 ** 3,
+  Ti: 1024 ** 4,
+}
+
+/**
+ * Parse a Kubernetes resource quantity, e.g. `7500m` or `32Gi`.
+ *
+ * @return the quantity in base units (cores, bytes, ...), or 0 for `<none>` or a missing quantity
+ */
+export function parseQuantity(quantity = ""): number {
+  const match = quantity.match(/^([\d.]+)([a-zA-Z]*)$/)
+  if (!match) {
+    return 0
+  } else {
+    return parseFloat(match[1]) * (multipliers[match[2]] || 1)
+  }
+}
+
+/** @return the `Sample` blocks in the given `content` */
+export function parseSamples(content: string): Sample[] {
+  const samples: Sample[] = []
+
+  // column names of the most recent table header
+  let columns: string[] = []
+
+  stripAnsi(content)
+    .split(/\n/)
+    .forEach((line) => {
+      const sampleMatch = line.match(/^Sample\s+(\S+)/)
+      if (sampleMatch) {
+        samples.push({ timestamp: new Date(sampleMatch[1]).getTime(), rows: [] })
+        columns = []
+      } else if (samples.length > 0 && line.trim().length > 0) {
+        const cells = line.trim().split(/\s+/)
+
+        if (cells[0] === "NAME") {
+          columns = cells
+        } else if (columns.length > 0 && cells.length >= columns.length) {
+          // skip rows that lack a cell for some column, e.g. a row
+          // truncated by a capture that was cut short
+          samples[samples.length - 1].rows.push(
+            columns.reduce((row, column, idx) => {
+              row[column] = cells[idx]
+              return row
+            }, {} as Row)
+          )
+        }
+      }
+    })
+
+  return samples
+}
+
+/**
+ * @return the interval between consecutive `samples`, in
+ * milliseconds, or `undefined` if there are too few samples to tell;
+ * we use the median gap, so that a stalled capture does not skew it
+ */
+export function samplingInterval(samples: Sample[]): number | undefined {
+  const gaps = samples
+    .slice(1)
+    .map((sample, idx) => sample.timestamp - samples[idx].timestamp)
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b)
+
+  return gaps.length === 0 ? undefined : gaps[Math.floor(gaps.length / 2)]
+}
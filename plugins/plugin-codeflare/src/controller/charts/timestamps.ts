@@ -16,7 +16,7 @@
 
 import LogRecord from "./LogRecord"
 
-export function timeRange(...records: LogRecord<unknown>[][]) {
+export function timeRange(...records: Pick<LogRecord<unknown>, "timestamp">[][]) {
   let min = Number.MAX_VALUE
   let max = Number.MIN_VALUE
 
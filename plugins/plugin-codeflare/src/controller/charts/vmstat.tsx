@@ -15,60 +15,18 @@
  */
 
 import React from "react"
-import { Arguments, ReactResponse, encodeComponent } from "@kui-shell/core"
+import { Arguments, ReactResponse } from "@kui-shell/core"
 
-import { expand } from "../../lib/util"
 import { timeRange } from "./timestamps"
-import LogRecord, { toHostMap } from "./LogRecord"
+import { toHostMap } from "./LogRecord"
+import { Log } from "./parsers/vmstat"
+import RunDirectory from "../run/RunDirectory"
 
 import ChartGrid from "../../components/ChartGrid"
 import VmstatChart from "../../components/VmstatChart"
+import { unquote } from "../../lib/util"
 
-export type Log = LogRecord<{
-  user: number
-  system: number
-  idle: number
-  iowait: number
-  freeMemory: number
-}>
-
-/** log line -> Log object */
-export function parseLine(line: string): Log {
-  const cells = line.split(/\s+/)
-
-  const N = cells.length
-  const hostname = cells[0]
-  const freeMemory = parseInt(cells[4], 10)
-  const user = parseInt(cells[13], 10)
-  const system = parseInt(cells[14], 10)
-  const idle = parseInt(cells[15], 10)
-  const iowait = parseInt(cells[16], 10)
-  const timestamp = new Date(cells[N - 2] + " " + cells[N - 1]).getTime()
-
-  return {
-    hostname,
-    timestamp,
-    user,
-    system,
-    idle,
-    iowait,
-    freeMemory,
-  }
-}
-
-export function filter(line: string): boolean {
-  return !!line && !/----|swpd/.test(line)
-}
-
-export async function parse(filepath: string, REPL: Arguments["REPL"]): Promise<Log[]> {
-  return (await REPL.qexec<string>(`vfs fslice ${encodeComponent(expand(filepath))} 0`))
-    .split(/\n/) // now we have rows
-    .filter(filter) // filter those rows
-    .map(parseLine) // parse the line a `Log` object
-    .sort((a, b) => a.hostname.localeCompare(b.hostname))
-}
-
-function chart(logs: Awaited<ReturnType<typeof parse>>): ReactResponse {
+function chart(logs: Log[]): ReactResponse {
   const { min, max } = timeRange(logs)
 
   return {
@@ -81,10 +39,10 @@ function chart(logs: Awaited<ReturnType<typeof parse>>): ReactResponse {
 }
 
 export default async function chartCmd(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
+  const filepath = unquote(args.argvNoOptions[3])
   if (!filepath) {
     throw new Error(`Usage chart vmstat ${filepath}`)
   }
 
-  return chart(await parse(filepath, args.REPL))
+  return chart(await new RunDirectory(filepath, args.REPL).vmstat())
 }
@@ -18,6 +18,9 @@ import { basename } from "path"
 import { productName } from "@kui-shell/client/config.d/name.json"
 import { Arguments, CommandOptions, Registrar, encodeComponent, unparse } from "@kui-shell/core"
 
+import { isArchive, mountArchives } from "./archive"
+import { unquote } from "../lib/util"
+
 import "../../web/scss/components/Dashboard/_index.scss"
 
 export interface FollowOptions {
@@ -41,7 +44,7 @@ function dashboardcli(args: Arguments<DashboardOptions>) {
     return import("./attach").then((_) => _.default(args))
   }
 
-  const filepath = args.argvNoOptions[2]
+  const filepath = unquote(args.argvNoOptions[2])
   if (!filepath) {
     throw new Error("Usage: codeflare dashboard <filepath>")
   }
@@ -49,13 +52,31 @@ function dashboardcli(args: Arguments<DashboardOptions>) {
   return args.REPL.qexec(`codeflare dashboardui ${encodeComponent(filepath)} ${unparse(args.parsedOptions)}`)
 }
 
+/**
+ * An archived run is no longer growing, and neither is a run that has
+ * already completed, so there is nothing to follow.
+ */
+async function shouldFollow(filepath: string, args: Arguments<DashboardOptions>) {
+  if (!args.parsedOptions.follow || isArchive(filepath)) {
+    return false
+  }
+
+  const [{ default: RunDirectory }, { isComplete }] = await Promise.all([
+    import("./run/RunDirectory"),
+    import("./run/completion"),
+  ])
+  return !isComplete(await new RunDirectory(filepath, args.REPL).jobDefinition())
+}
+
 async function dashboardui(args: Arguments<DashboardOptions>) {
   const { setTabReadonly } = await import("@kui-shell/plugin-madwizard")
   setTabReadonly(args)
 
-  const filepath = args.argvNoOptions[2]
+  const filepath = unquote(args.argvNoOptions[2])
+  await mountArchives(args)
+
   process.env.LOGDIR = filepath
-  process.env.FOLLOW = args.parsedOptions.follow ? "-f" : ""
+  process.env.FOLLOW = (await shouldFollow(filepath, args)) ? "-f" : ""
 
   return args.REPL.qexec(`commentary -f /kui/client/dashboard.md`)
 }
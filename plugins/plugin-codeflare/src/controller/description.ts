@@ -14,9 +14,10 @@
  * limitations under the License.
  */
 
-import { join } from "path"
-import { Arguments, Registrar, encodeComponent } from "@kui-shell/core"
-import { expand } from "../lib/util"
+import { Arguments, Registrar } from "@kui-shell/core"
+import { mountArchives } from "./archive"
+import RunDirectory, { JobDefinition } from "./run/RunDirectory"
+import { unquote } from "../lib/util"
 
 type Item = { label: string; value: string }
 
@@ -43,36 +44,50 @@ export type SummaryResponse = {
   source: string
 }
 
-/** Given the location of the staging directory, return the location of the ray job definition */
-function jobDefinition(filepath: string) {
-  return encodeComponent(expand(join(filepath.replace(/'/g, ""), "ray-job-definition.json")))
+/** @return the ray job definition of the given run, or `undefined` if it is missing or malformed */
+export function getJobDefinition(runDir: string, REPL: Arguments["REPL"]) {
+  return new RunDirectory(runDir, REPL).jobDefinition()
 }
 
-export async function getJobDefinition(runDir: string, REPL: Arguments["REPL"]) {
-  try {
-    return JSON.parse(await REPL.qexec<string>(`vfs fslice ${encodeComponent(jobDefinition(runDir))} 0`))
-  } catch (err) {
-    console.error(runDir, err)
-  }
+/** @return the ray job definition of the given run; rejects with a description of what is missing */
+async function requireJobDefinition(runDir: string, REPL: Arguments["REPL"]): Promise<JobDefinition> {
+  return JSON.parse(await new RunDirectory(runDir, REPL).read("jobDefinition"))
 }
 
-async function app(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
-  if (!filepath) {
-    throw new Error("Usage: description application <filepath>")
-  }
-
-  const jobInfo = await getJobDefinition(filepath, args.REPL)
+/** @return the `Summary` model of the application of the given job */
+export function applicationSummary(jobInfo: JobDefinition): Summary {
   const RAY_IMAGE = jobInfo.runtime_env.env_vars ? jobInfo.runtime_env.env_vars.RAY_IMAGE : "Unknown"
 
   const status = jobInfo.status.toLowerCase()
 
-  const summaryData = [
+  return [
     { label: "Application Class", value: "Unknown" }, // TODO...
     { label: "Application Name", value: "Unknown" }, // TODO...
     { label: "Base Image", value: RAY_IMAGE },
     { label: "Run Status", value: status ? status[0].toUpperCase() + status.slice(1) : "Unknown" },
   ]
+}
+
+/** @return the `Summary` model of the workers of the given job */
+export function workersSummary(jobInfo: JobDefinition): Summary {
+  const { KUBE_CONTEXT, KUBE_NS, WORKER_MEMORY, MIN_WORKERS, MAX_WORKERS } = jobInfo.runtime_env.env_vars || {}
+
+  return [
+    { label: "Cluster Context", value: KUBE_CONTEXT.replace(/^[^/]+\//, "") },
+    { label: "Cluster Namespace", value: KUBE_NS },
+    { label: "GPU Class", value: "Unknown" },
+    { label: "Memory per Worker", value: WORKER_MEMORY },
+    { label: "Worker Count", value: `${MIN_WORKERS}-${MAX_WORKERS}` },
+  ]
+}
+
+async function app(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error("Usage: description application <filepath>")
+  }
+
+  const summaryData = applicationSummary(await requireJobDefinition(filepath, args.REPL))
 
   const React = await import("react")
   const Description = await import("../components/Description")
@@ -83,21 +98,12 @@ async function app(args: Arguments) {
 }
 
 async function workers(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
+  const filepath = unquote(args.argvNoOptions[3])
   if (!filepath) {
     throw new Error("Usage: description workers <filepath>")
   }
 
-  const jobInfo = JSON.parse(await args.REPL.qexec<string>(`vfs fslice ${jobDefinition(filepath)} 0`))
-  const { KUBE_CONTEXT, KUBE_NS, WORKER_MEMORY, MIN_WORKERS, MAX_WORKERS } = jobInfo.runtime_env.env_vars
-
-  const summaryData = [
-    { label: "Cluster Context", value: KUBE_CONTEXT.replace(/^[^/]+\//, "") },
-    { label: "Cluster Namespace", value: KUBE_NS },
-    { label: "GPU Class", value: "Unknown" },
-    { label: "Memory per Worker", value: WORKER_MEMORY },
-    { label: "Worker Count", value: `${MIN_WORKERS}-${MAX_WORKERS}` },
-  ]
+  const summaryData = workersSummary(await requireJobDefinition(filepath, args.REPL))
 
   const React = await import("react")
   const Description = await import("../components/Description")
@@ -108,6 +114,10 @@ async function workers(args: Arguments) {
 }
 
 export default function registerDescriptionCommands(registrar: Registrar) {
-  registrar.listen("/codeflare/description/application", app, { needsUI: true })
-  registrar.listen("/codeflare/description/workers", workers, { needsUI: true })
+  registrar.listen("/codeflare/description/application", (args) => mountArchives(args).then(() => app(args)), {
+    needsUI: true,
+  })
+  registrar.listen("/codeflare/description/workers", (args) => mountArchives(args).then(() => workers(args)), {
+    needsUI: true,
+  })
 }
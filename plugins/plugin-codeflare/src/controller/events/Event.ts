@@ -23,7 +23,14 @@ type Event<T extends string, Detail> = Detail & {
   type: T
   state: State
   timestamp: number
+
+  /** When this event reached the Done state, if known */
+  endTimestamp?: number
+
   hidden?: boolean
+
+  /** Draw attention to this event, e.g. the best trial of a hyperparameter sweep */
+  highlight?: boolean
 }
 
 export type GenericEvent = Event<string, unknown>
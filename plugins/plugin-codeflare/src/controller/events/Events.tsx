@@ -15,20 +15,42 @@
  */
 
 import React from "react"
-import { join } from "path"
+import prettyMillis from "pretty-ms"
 import stripAnsi from "strip-ansi"
-import { Arguments, encodeComponent } from "@kui-shell/core"
+import { Arguments, ParsedOptions } from "@kui-shell/core"
 
 import { GenericEvent } from "./Event"
+import toSpans from "./timeline"
 import parseKubeEvents, { collateEvent as collateKubeEvent, KubeEvent } from "./kube"
-import parseTorchEvents, { collateEvent as collateTorchEvent, TorchEvent } from "./torch"
-
-import { expand } from "../../lib/util"
+import parseTorchEvents, {
+  collateEvent as collateTorchEvent,
+  epochDurations,
+  estimatedCompletion,
+  TorchEvent,
+} from "./torch"
+import stragglers, { defaultMargin, describeStragglers } from "./stragglers"
+import parseTuneEvents, { collateEvent as collateTuneEvent, TuneEvent } from "./tune"
+import parseFailureEvents, { collateEvent as collateFailureEvent, failureModel, FailureEvent } from "./failures"
+import parseFrameworkEvents, {
+  Collator,
+  collateEvent as collateFrameworkEvent,
+  enabledCollators,
+  FrameworkEvent,
+} from "./collators"
+
+import { expand, unquote } from "../../lib/util"
+import RunDirectory from "../run/RunDirectory"
+import { stopOnCompletion } from "../run/completion"
 import Grid from "../../components/Grid"
+import Timeline from "../../components/Timeline"
+import ChartGrid from "../../components/ChartGrid"
 
 interface EventState {
   kubeEvents: KubeEvent[]
   torchEvents: TorchEvent[]
+  frameworkEvents?: FrameworkEvent[]
+  tuneEvents?: TuneEvent[]
+  failureEvents?: FailureEvent[]
 }
 
 /** State for the `<Events/>` component */
@@ -45,6 +67,15 @@ type State = EventState & {
   /** Subset of Torch events with `state != Pending`, i.e. `InProgress | Done | Error` */
   nNotPendingTorchEvents: number
 
+  /** Total number of events from the enabled `Collator`s */
+  nFrameworkEvents: number
+
+  /** Total number of Ray Tune trials */
+  nTuneEvents: number
+
+  /** Total number of failures spotted in the job logs */
+  nFailureEvents: number
+
   /** Oops, something went wrong */
   catastrophicError?: Error
 }
@@ -54,11 +85,20 @@ type Props = EventState & {
   /** Follow kube events? */
   onKube?(eventType: "data", cb: (data: any) => void): void
 
-  /** Follow torch events? */
+  /** Follow torch events? This stream also feeds the Ray Tune trials and the failure detector */
   onTorch?(eventType: "data", cb: (data: any) => void): void
 
+  /** The `Collator`s enabled for this run; these also consume the lines of the `onTorch` stream */
+  collators?: Collator[]
+
   /** Stop watching? */
   unwatch?(): void
+
+  /** Render a Gantt-style timeline rather than a grid of cells? */
+  timeline?: boolean
+
+  /** Flag workers whose progress rate lags the median by more than this fraction */
+  stragglerMargin?: number
 }
 
 /**
@@ -76,9 +116,18 @@ class Events extends React.PureComponent<Props, State> {
 
     const kubeEvents = props.kubeEvents || []
     const torchEvents = props.torchEvents || []
+    const frameworkEvents = props.frameworkEvents || []
+    const tuneEvents = props.tuneEvents || []
+    const failureEvents = props.failureEvents || []
     this.state = {
+      failureEvents,
+      nFailureEvents: failureEvents.length,
+      tuneEvents,
+      nTuneEvents: tuneEvents.length,
       kubeEvents,
       torchEvents,
+      frameworkEvents,
+      nFrameworkEvents: frameworkEvents.length,
       nKubeEvents: kubeEvents.length,
       nNotPendingKubeEvents: this.nNotPending(kubeEvents),
       nNotPendingTorchEvents: this.nNotPending(torchEvents),
@@ -105,7 +154,7 @@ class Events extends React.PureComponent<Props, State> {
             const toBeProcessed = queue
             queue = []
             this.setState((curState) => {
-              toBeProcessed.forEach((line) => collateKubeEvent(curState.kubeEvents, line))
+              toBeProcessed.forEach((line) => collateKubeEvent(curState.kubeEvents, line, Date.now()))
               return {
                 nKubeEvents: curState.kubeEvents.length,
                 nNotPendingKubeEvents: this.nNotPending(curState.kubeEvents),
@@ -132,7 +181,26 @@ class Events extends React.PureComponent<Props, State> {
             queue = []
             this.setState((curState) => {
               toBeProcessed.forEach((line) => collateTorchEvent(curState.torchEvents, line))
+
+              const tuneEvents = curState.tuneEvents || []
+              toBeProcessed.forEach((line) => collateTuneEvent(tuneEvents, line))
+
+              const failureEvents = curState.failureEvents || []
+              toBeProcessed.forEach((line) => collateFailureEvent(failureEvents, line))
+
+              const { collators } = this.props
+              const frameworkEvents = curState.frameworkEvents || []
+              if (collators && collators.length > 0) {
+                toBeProcessed.forEach((line) => collateFrameworkEvent(collators, frameworkEvents, line))
+              }
+
               return {
+                frameworkEvents,
+                nFrameworkEvents: frameworkEvents.length,
+                tuneEvents,
+                nTuneEvents: tuneEvents.length,
+                failureEvents,
+                nFailureEvents: failureEvents.length,
                 nTorchEvents: curState.torchEvents.length,
                 nNotPendingTorchEvents: this.nNotPending(curState.torchEvents),
               }
@@ -162,16 +230,75 @@ class Events extends React.PureComponent<Props, State> {
   }
 
   private get events() {
-    return [...this.state.kubeEvents, ...this.state.torchEvents]
+    const events = [
+      ...this.state.kubeEvents,
+      ...this.state.torchEvents,
+      ...(this.state.frameworkEvents || []),
+      ...(this.state.failureEvents || []),
+    ]
       .filter((_) => !_.hidden)
       .sort((a, b) => a.timestamp - b.timestamp)
+
+    // one row per Ray Tune trial, after the other events
+    return [...events, ...(this.state.tuneEvents || [])]
+  }
+
+  /**
+   * @return a summary of the training progress: mean epoch duration,
+   * the estimated completion of a live run, and any stragglers
+   */
+  private header() {
+    const durations = epochDurations(this.state.torchEvents)
+    const slow = stragglers(this.state.torchEvents, this.props.stragglerMargin)
+
+    if (durations.length > 0 || slow.length > 0) {
+      const mean = durations.reduce((sum, _) => sum + _.duration, 0) / durations.length
+
+      // only a live run has a meaningful completion estimate
+      const eta = this.props.onTorch ? estimatedCompletion(this.state.torchEvents) : undefined
+      const remaining = eta === undefined ? 0 : eta - Date.now()
+
+      return (
+        <div className="codeflare-events-header">
+          {durations.length > 0 && <span>Mean epoch duration {prettyMillis(mean, { compact: true })}</span>}
+          {eta !== undefined && (
+            <span>
+              Estimated completion {new Date(eta).toLocaleTimeString()}
+              {remaining > 0 ? ` (in ${prettyMillis(remaining, { compact: true })})` : ""}
+            </span>
+          )}
+          {slow.length > 0 && (
+            <span className="codeflare-events-badge" title={describeStragglers(slow)}>
+              {slow.length === 1 ? "1 straggler" : `${slow.length} stragglers`}: {slow.map((_) => _.ip).join(", ")}
+            </span>
+          )}
+        </div>
+      )
+    }
+  }
+
+  private timeline() {
+    const spans = toSpans(this.events)
+    const minTime = spans.reduce((min, _) => Math.min(min, _.start), Number.MAX_VALUE)
+    const maxTime = spans.reduce((max, _) => Math.max(max, _.end), 0)
+
+    return (
+      <ChartGrid>
+        <Timeline spans={spans} minTime={minTime} maxTime={maxTime} />
+      </ChartGrid>
+    )
   }
 
   public render() {
     if (this.state.catastrophicError) {
       return "Internal Error"
     } else {
-      return <Grid events={this.events} />
+      return (
+        <React.Fragment>
+          {this.header()}
+          {this.props.timeline ? this.timeline() : <Grid events={this.events} />}
+        </React.Fragment>
+      )
     }
   }
 }
@@ -182,14 +309,17 @@ class Events extends React.PureComponent<Props, State> {
  * component will manage the state of the events, and in turn pass off
  * to the `<Grid/>` component for final rendering.
  */
-async function eventsUI(filepath: string, REPL: Arguments["REPL"]) {
-  const jobFilepath = join(expand(filepath), "logs/job.txt")
-  const kubeFilepath = join(expand(filepath), "events/kubernetes.txt")
+async function eventsUI(filepath: string, REPL: Arguments["REPL"], timeline = false, stragglerMargin = defaultMargin) {
+  const run = new RunDirectory(filepath, REPL)
+  const jobFilepath = run.filepath("logs")
+  const kubeFilepath = run.filepath("events")
 
   if (process.env.FOLLOW) {
-    const [TailFile, split2] = await Promise.all([
+    const [TailFile, split2, collators, startTime] = await Promise.all([
       import("@logdna/tail-file").then((_) => _.default),
       import("split2").then((_) => _.default),
+      enabledCollators(filepath, REPL),
+      run.startTime(),
     ])
 
     const kubeTail = new TailFile(kubeFilepath, {
@@ -218,37 +348,63 @@ async function eventsUI(filepath: string, REPL: Arguments["REPL"]) {
       <Events
         kubeEvents={[]}
         torchEvents={[]}
+        failureEvents={failureModel(startTime)}
         onKube={kubeSplitter.on.bind(kubeSplitter)}
         onTorch={torchSplitter.on.bind(torchSplitter)}
-        unwatch={() => {
+        collators={collators}
+        timeline={timeline}
+        stragglerMargin={stragglerMargin}
+        unwatch={stopOnCompletion(run, () => {
           kubeTail.quit()
           jobTail.quit()
-        }}
+        })}
       />
     )
   } else {
-    const [kube, torch] = await Promise.all([
-      REPL.qexec<string>(`vfs fslice ${encodeComponent(kubeFilepath)} 0`)
-        .catch(() => "")
-        .then(stripAnsi)
-        .then(parseKubeEvents),
-      REPL.qexec<string>(`vfs fslice ${encodeComponent(jobFilepath)} 0`)
-        .catch(() => "")
-        .then(stripAnsi)
-        .then(parseTorchEvents),
+    // the LAST SEEN ages of the kubernetes events are relative to when
+    // they were captured, which began as the job started
+    const startTime = await run.startTime()
+
+    const [kube, jobLogs, collators] = await Promise.all([
+      run.events().then((content) => parseKubeEvents(content, startTime || Date.now())),
+      run.logs(),
+      enabledCollators(filepath, REPL),
     ])
 
-    return <Events kubeEvents={kube} torchEvents={torch} />
+    return (
+      <Events
+        kubeEvents={kube}
+        torchEvents={parseTorchEvents(jobLogs)}
+        frameworkEvents={parseFrameworkEvents(collators, jobLogs)}
+        tuneEvents={parseTuneEvents(jobLogs)}
+        failureEvents={parseFailureEvents(jobLogs, startTime)}
+        timeline={timeline}
+        stragglerMargin={stragglerMargin}
+      />
+    )
   }
 }
 
-export default async function eventsCmd(args: Arguments) {
-  const filepath = args.argvNoOptions[3]
+export interface EventsOptions extends ParsedOptions {
+  /** Render a Gantt-style timeline rather than a grid of cells */
+  timeline?: boolean
+
+  /** Flag workers whose progress rate lags the median by more than this fraction, e.g. 0.2 */
+  "straggler-margin"?: number
+}
+
+export default async function eventsCmd(args: Arguments<EventsOptions>) {
+  const filepath = unquote(args.argvNoOptions[3])
   if (!filepath) {
     throw new Error(`Usage codeflare chart events ${filepath}`)
   }
 
   return {
-    react: await eventsUI(expand(filepath), args.REPL),
+    react: await eventsUI(
+      expand(filepath),
+      args.REPL,
+      !!args.parsedOptions.timeline,
+      args.parsedOptions["straggler-margin"]
+    ),
   }
 }
@@ -0,0 +1,89 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { KubeEvent } from "./kube"
+import { TorchEvent } from "./torch"
+
+/** A time span or instant to highlight on a chart, e.g. an Epoch of training */
+export type Annotation = {
+  /** `phase` annotations are drawn in a different color than `event` annotations */
+  kind: "phase" | "event"
+
+  /** Short label to display with the annotation */
+  label: string
+
+  /** Absolute timestamp of the start of the annotation */
+  start: number
+
+  /** Absolute timestamp of the end of the annotation; if not given, we draw a marker rather than a band */
+  end?: number
+}
+
+/** The Torch event types that mark a phase of training worth showing on a utilization chart */
+const phases: TorchEvent["type"][] = [
+  "Data Fetch from Upstream",
+  "Data Store in Cache",
+  "Data Fetch from Cache",
+  "Data Uncompress",
+  "Evaluation",
+  "Epoch",
+]
+
+/**
+ * Epochs and Evaluations run in lockstep across the workers, so we
+ * merge them into one job-wide annotation per epoch; the Data events
+ * are specific to each worker.
+ *
+ * @return chart annotations for the training phases in `events`
+ */
+export function torchAnnotations(events: TorchEvent[]): Annotation[] {
+  const M = events
+    .filter((_) => !_.hidden && _.state !== "Pending" && _.timestamp > 0 && phases.includes(_.type))
+    .reduce((M, evt) => {
+      const isPerWorker = evt.type !== "Epoch" && evt.type !== "Evaluation"
+      const key = isPerWorker ? `${evt.type} ${evt.ip} ${evt.timestamp}` : `${evt.type} ${evt.epoch}`
+
+      const annotation = M[key]
+      if (!annotation) {
+        M[key] = {
+          kind: "phase",
+          label: evt.type === "Epoch" ? `Epoch ${evt.epoch + 1}` : isPerWorker ? `${evt.type} on ${evt.ip}` : evt.type,
+          start: evt.timestamp,
+          end: evt.endTimestamp,
+        }
+      } else {
+        annotation.start = Math.min(annotation.start, evt.timestamp)
+        if (evt.endTimestamp !== undefined) {
+          annotation.end = Math.max(annotation.end || 0, evt.endTimestamp)
+        }
+      }
+      return M
+    }, {} as Record<string, Annotation>)
+
+  return Object.values(M).sort((a, b) => a.start - b.start)
+}
+
+/** @return chart annotations for those of the given Kubernetes `events` that have a timestamp */
+export function kubeAnnotations(events: KubeEvent[]): Annotation[] {
+  return events
+    .filter((_) => !_.hidden && _.timestamp > 0)
+    .map((evt) => ({
+      kind: "event" as const,
+      label: evt.name,
+      start: evt.timestamp,
+      end: evt.endTimestamp,
+    }))
+}
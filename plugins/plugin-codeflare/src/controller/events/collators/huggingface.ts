@@ -0,0 +1,90 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Collator, FrameworkEvent, findPrevious, ipOf, markDone, timestampOf } from "."
+
+const name = "huggingface"
+
+/**
+ * HuggingFace Trainer log dicts, e.g.
+ * `{'loss': 0.6931, 'learning_rate': 4.9e-05, 'epoch': 0.27}`,
+ * `{'eval_loss': 0.6902, 'eval_runtime': 1.2, ..., 'epoch': 1.0}`, and
+ * `{'train_runtime': 123.4, ..., 'train_loss': 0.69, 'epoch': 3.0}`
+ */
+const huggingface: Collator = {
+  name,
+  entrypoint: /\btransformers\b|\brun_(glue|clm|mlm|ner|qa|summarization|translation)\b/,
+  matcher: /\{'(loss|eval_loss|train_runtime)': ([\d.e+-]+).*'epoch': ([\d.]+)\}/,
+  reducer(M: FrameworkEvent[], line: string, match: RegExpMatchArray) {
+    const ip = ipOf(line)
+    const timestamp = timestampOf(M, line)
+    if (timestamp === undefined) {
+      // we cannot place this line in time
+      return M
+    }
+
+    const kind = match[1]
+    const value = parseFloat(match[2])
+    const progress = parseFloat(match[3])
+
+    if (kind === "train_runtime") {
+      // training is over
+      M.filter((_) => _.collator === name && _.ip === ip).forEach((_) => markDone(_, timestamp))
+    } else if (kind === "eval_loss") {
+      // evaluation happens as the epoch ends, i.e. at progress 1.0 for epoch 0
+      const epoch = Math.max(0, Math.round(progress) - 1)
+      const prevEpoch = findPrevious(M, name, ip, "Epoch")
+      if (prevEpoch && prevEpoch.epoch === epoch) {
+        markDone(prevEpoch, timestamp)
+      }
+
+      M.push({
+        name: `HuggingFace Training on ${ip}`,
+        collator: name,
+        ip,
+        epoch,
+        type: "Evaluation",
+        state: "Done",
+        message: `Epoch ${epoch} - Evaluation loss ${value}`,
+        timestamp,
+        endTimestamp: timestamp,
+      })
+    } else {
+      const epoch = Math.floor(progress)
+      const prev = findPrevious(M, name, ip, "Epoch")
+
+      if (!prev || prev.epoch !== epoch) {
+        markDone(prev, timestamp)
+        M.push({
+          name: `HuggingFace Training on ${ip}`,
+          collator: name,
+          ip,
+          epoch,
+          type: "Epoch",
+          state: "InProgress",
+          message: `Epoch ${epoch} - loss ${value}`,
+          timestamp,
+        })
+      } else if (prev.state === "InProgress") {
+        prev.message = `Epoch ${epoch} - loss ${value}`
+      }
+    }
+
+    return M
+  },
+}
+
+export default huggingface
@@ -0,0 +1,183 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Arguments } from "@kui-shell/core"
+
+import Event from "../Event"
+import RunDirectory from "../../run/RunDirectory"
+
+/** An event manufactured by one of the registered `Collator`s */
+export type FrameworkEvent = Event<
+  string,
+  {
+    /** Name of the `Collator` that produced this event */
+    collator: string
+
+    /** The ip of the worker that emitted the underlying log line */
+    ip: string
+
+    /** The training epoch of this event, or -1 if not applicable */
+    epoch: number
+  }
+>
+
+/**
+ * A `Collator` folds job log lines into `FrameworkEvent`s, for
+ * training frameworks whose progress output the Torch parser does not
+ * understand, e.g. PyTorch Lightning.
+ */
+export interface Collator {
+  /** Unique name; this is also how users enable the collator via choices.json */
+  name: string
+
+  /** Enable this collator automatically, if the job's entrypoint matches */
+  entrypoint?: RegExp
+
+  /** Only lines that match will be handed to the `reducer` */
+  matcher: RegExp
+
+  /** Fold the given matching `line` into `M` */
+  reducer(M: FrameworkEvent[], line: string, match: RegExpMatchArray): FrameworkEvent[]
+}
+
+/** The choices.json key via which users may enable collators, as a comma-separated list of collator names */
+export const choicesKey = "codeflare/event-collators"
+
+const registry: Collator[] = []
+
+/** Register a `Collator`; a later registration with the same name replaces the former */
+export function register(collator: Collator) {
+  const idx = registry.findIndex((_) => _.name === collator.name)
+  if (idx >= 0) {
+    registry[idx] = collator
+  } else {
+    registry.push(collator)
+  }
+}
+
+/** @return all registered collators */
+export function collators(): readonly Collator[] {
+  return registry
+}
+
+/** @return the ip of the Ray worker that emitted the given log `line`, or the empty string if unknown */
+export function ipOf(line: string) {
+  const match = line.match(/ip=([\d.]+)\)/)
+  return match ? match[1] : ""
+}
+
+/** The most recent timestamp printed in the job logs; we keep it on the side, keyed by the events model */
+const lastTimestamps = new WeakMap<FrameworkEvent[], number>()
+
+/** @return the timestamp printed in the given log `line`, or `undefined` if it has none */
+function parseTimestamp(line: string) {
+  const match = line.match(/(\d+[-/]\d+[-/]\d+[\sT]\d+:\d+:\d+)/)
+  if (match) {
+    const timestamp = new Date(match[1]).getTime()
+    if (!isNaN(timestamp)) {
+      return timestamp
+    }
+  }
+}
+
+/**
+ * @return the timestamp of the given log `line`; many frameworks do
+ * not timestamp their progress output, in which case we use the most
+ * recent timestamp printed in the logs, if any; reducers should skip
+ * lines for which we have no timestamp at all
+ */
+export function timestampOf(M: FrameworkEvent[], line: string): number | undefined {
+  const timestamp = parseTimestamp(line)
+  return timestamp !== undefined ? timestamp : lastTimestamps.get(M)
+}
+
+/** @return the most recent event of the given `type` for the given collator and worker, optionally in a given `state` */
+export function findPrevious(
+  M: FrameworkEvent[],
+  collator: string,
+  ip: string,
+  type: string,
+  state?: FrameworkEvent["state"]
+) {
+  for (let idx = M.length - 1; idx >= 0; idx--) {
+    const evt = M[idx]
+    if (evt.collator === collator && evt.ip === ip && evt.type === type && (!state || evt.state === state)) {
+      return evt
+    }
+  }
+}
+
+/** Mark the given event as Done, as of `timestamp` */
+export function markDone(evt: FrameworkEvent | undefined, timestamp: number) {
+  if (evt && evt.state !== "Done") {
+    evt.state = "Done"
+    evt.endTimestamp = timestamp
+  }
+}
+
+/** Fold one log `line` into `M`, using the given enabled `collators` */
+export function collateEvent(collators: readonly Collator[], M: FrameworkEvent[], line: string) {
+  const timestamp = parseTimestamp(line)
+  if (timestamp !== undefined) {
+    lastTimestamps.set(M, timestamp)
+  }
+
+  return collators.reduce((M, collator) => {
+    const match = line.match(collator.matcher)
+    return match ? collator.reducer(M, line, match) : M
+  }, M)
+}
+
+/** @return the events in the given job logs, using the given enabled `collators` */
+export default function frameworkEvents(collators: readonly Collator[], jobLogs: string): FrameworkEvent[] {
+  if (collators.length === 0) {
+    return []
+  }
+
+  return jobLogs.split(/\n/).reduce((M, line) => collateEvent(collators, M, line), [] as FrameworkEvent[])
+}
+
+/** @return the collator names listed in the given run's choices.json */
+async function chosen(run: RunDirectory): Promise<string[]> {
+  const choices = await run.choices()
+  if (!choices) {
+    // no choices.json, or not JSON; either way, nothing chosen
+    return []
+  }
+
+  const value = choices[choicesKey] || (choices.choices && choices.choices[choicesKey]) || ""
+  return String(value)
+    .split(/,/)
+    .map((_) => _.trim())
+    .filter(Boolean)
+}
+
+/**
+ * @return the collators enabled for the given run, either because
+ * the run's choices.json lists them, or because the job's entrypoint
+ * matches
+ */
+export async function enabledCollators(runDir: string, REPL: Arguments["REPL"]): Promise<Collator[]> {
+  await import("./builtins")
+
+  const run = new RunDirectory(runDir, REPL)
+  const [names, jobInfo] = await Promise.all([chosen(run), run.jobDefinition()])
+  const entrypoint: string = (jobInfo && jobInfo.entrypoint) || ""
+
+  return registry.filter(
+    (collator) => names.includes(collator.name) || (collator.entrypoint && collator.entrypoint.test(entrypoint))
+  )
+}
@@ -0,0 +1,85 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Collator, FrameworkEvent, findPrevious, ipOf, markDone, timestampOf } from "."
+
+const name = "lightning"
+
+/**
+ * PyTorch Lightning progress bars, e.g.
+ * `Epoch 3:  45%|████▌     | 450/1000 [00:30<00:37, 14.8it/s, loss=0.693, v_num=0]`
+ * and `Validation DataLoader 0:  50%|█████     | 5/10 [00:01<00:01,  4.1it/s]`
+ */
+const lightning: Collator = {
+  name,
+  entrypoint: /lightning/i,
+  matcher: /(?:Epoch (\d+)|(Validat)\w*(?: DataLoader \d+)?):\s+(\d+)%\|/,
+  reducer(M: FrameworkEvent[], line: string, match: RegExpMatchArray) {
+    const ip = ipOf(line)
+    const timestamp = timestampOf(M, line)
+    if (timestamp === undefined) {
+      // we cannot place this line in time
+      return M
+    }
+
+    const isDone = parseInt(match[3], 10) === 100
+
+    if (match[1] !== undefined) {
+      const epoch = parseInt(match[1], 10)
+      const prev = findPrevious(M, name, ip, "Epoch")
+
+      if (!prev || prev.epoch !== epoch) {
+        markDone(prev, timestamp)
+        M.push({
+          name: `Lightning Training on ${ip}`,
+          collator: name,
+          ip,
+          epoch,
+          type: "Epoch",
+          state: "InProgress",
+          message: `Epoch ${epoch}`,
+          timestamp,
+        })
+      } else if (isDone) {
+        markDone(prev, timestamp)
+      }
+    } else {
+      const currentEpoch = findPrevious(M, name, ip, "Epoch")
+      const epoch = currentEpoch ? currentEpoch.epoch : -1
+      const prev = findPrevious(M, name, ip, "Evaluation")
+
+      if (!prev || prev.epoch !== epoch) {
+        M.push({
+          name: `Lightning Training on ${ip}`,
+          collator: name,
+          ip,
+          epoch,
+          type: "Evaluation",
+          state: isDone ? "Done" : "InProgress",
+          message: `Epoch ${epoch} - Validation`,
+          timestamp,
+          endTimestamp: isDone ? timestamp : undefined,
+        })
+      } else if (isDone) {
+        markDone(prev, timestamp)
+      }
+    }
+
+    return M
+  },
+}
+
+export default lightning
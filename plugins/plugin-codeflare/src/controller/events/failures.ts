@@ -0,0 +1,166 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Event from "./Event"
+
+/** A known failure signature: how to spot it in the job logs, and how to describe it */
+type Signature = {
+  name: string
+  pattern: RegExp
+}
+
+/** The failure signatures we detect, most specific first */
+const signatures: Signature[] = [
+  { name: "CUDA out of memory", pattern: /CUDA out of memory/ },
+  { name: "NCCL timeout", pattern: /NCCL.*time[d ]?\s?out|Watchdog caught collective operation timeout/i },
+  { name: "Ray worker crashed", pattern: /WorkerCrashedError|worker died or was killed/i },
+  { name: "Ray actor died", pattern: /RayActorError|The actor died unexpectedly/ },
+  { name: "Out of memory", pattern: /OutOfMemoryError|OOMKilled/ },
+  { name: "Python exception", pattern: /Traceback \(most recent call last\):/ },
+]
+
+/** A `FailureEvent` marks a failure that we spotted in the job logs */
+export type FailureEvent = Event<
+  "Failure",
+  {
+    /** The ip of the worker that failed, or the empty string if the failure was not reported by a worker */
+    ip: string
+
+    /** The name of the failure signature that matched */
+    signature: string
+
+    /** The line of the job logs at which the failure was reported, 1-based */
+    line: number
+
+    /** The offending lines of the job logs */
+    excerpt: string
+  }
+>
+
+/** Cross-line parsing context */
+type Context = {
+  /** Number of lines seen so far */
+  nLines: number
+
+  /** The most recent timestamp printed in the logs */
+  lastTimestamp?: number
+
+  /** The start of the run, where we place failures that precede any timestamp in the logs */
+  startTime?: number
+
+  /** Tracebacks still being printed, by worker ip */
+  tracebacks: Record<string, FailureEvent>
+}
+
+/** We need some cross-line context; we keep it on the side, keyed by the events model */
+const contexts = new WeakMap<FailureEvent[], Context>()
+
+/** Show at most this many lines of a traceback */
+const maxExcerptLines = 20
+
+function contextOf(M: FailureEvent[]): Context {
+  let context = contexts.get(M)
+  if (!context) {
+    context = { nLines: 0, tracebacks: {} }
+    contexts.set(M, context)
+  }
+  return context
+}
+
+/** A traceback ends with the exception, e.g. `RuntimeError: CUDA out of memory. ...` */
+function isExceptionLine(text: string) {
+  return /^\s*[\w.]+(Error|Exception|Interrupt|Exit)\b(:|$)/.test(text)
+}
+
+/**
+ * Collate one line of the job logs. Python tracebacks are
+ * accumulated until their final exception line, which, if it matches
+ * a more specific signature, e.g. `RayActorError`, refines the
+ * signature of the failure.
+ */
+export function collateEvent(M: FailureEvent[], line: string): FailureEvent[] {
+  const context = contextOf(M)
+  const lineNumber = ++context.nLines
+
+  const ipMatch = line.match(/ip=([\d.]+)\)/)
+  const ip = ipMatch ? ipMatch[1] : ""
+  const text = ipMatch ? line.slice(line.indexOf(")") + 2) : line
+
+  const timestampMatch = text.match(/(\d+[-/]\d+[-/]\d+\s+\d+:\d+:\d+)/)
+  if (timestampMatch) {
+    const timestamp = new Date(timestampMatch[1]).getTime()
+    if (!isNaN(timestamp)) {
+      context.lastTimestamp = timestamp
+    }
+  }
+
+  const signature = signatures.find((_) => _.pattern.test(text))
+  const traceback = context.tracebacks[ip]
+
+  if (traceback) {
+    traceback.excerpt += "\n" + text.trimEnd()
+    if (signature && signature.name !== "Python exception" && traceback.signature === "Python exception") {
+      traceback.signature = signature.name
+      traceback.subtitle = signature.name
+    }
+
+    if (isExceptionLine(text) || traceback.excerpt.split(/\n/).length >= maxExcerptLines) {
+      traceback.message = text.trim()
+      delete context.tracebacks[ip]
+    }
+  } else if (signature) {
+    const timestamp = context.lastTimestamp !== undefined ? context.lastTimestamp : context.startTime
+    if (timestamp === undefined) {
+      // we cannot place a failure that precedes any timestamp of a run whose start we do not know
+      return M
+    }
+
+    const evt: FailureEvent = {
+      name: ip ? `Failure on ${ip}` : "Failure",
+      subtitle: signature.name,
+      type: "Failure",
+      state: "Error",
+      message: text.trim(),
+      timestamp,
+      ip,
+      signature: signature.name,
+      line: lineNumber,
+      excerpt: text.trimEnd(),
+    }
+    M.push(evt)
+
+    if (signature.name === "Python exception") {
+      context.tracebacks[ip] = evt
+    }
+  }
+
+  return M
+}
+
+/**
+ * @param startTime the start of the run, if known
+ * @return an empty model, to which `collateEvent` adds failures
+ */
+export function failureModel(startTime?: number): FailureEvent[] {
+  const M: FailureEvent[] = []
+  contextOf(M).startTime = startTime
+  return M
+}
+
+/** @return the failures reported in the given job logs of a run that started at the given time */
+export default function failureEvents(jobLogs: string, startTime?: number): FailureEvent[] {
+  return jobLogs.split(/\n/).reduce(collateEvent, failureModel(startTime))
+}
@@ -14,11 +14,31 @@
  * limitations under the License.
  */
 
-import { Registrar } from "@kui-shell/core"
+import { CommandOptions, Registrar } from "@kui-shell/core"
+
+import { mountArchives } from "../archive"
+
+const flags: CommandOptions["flags"] = {
+  boolean: ["timeline"],
+}
 
 /** Command registration part of the Events UI */
 export default function registerEventCommands(registrar: Registrar) {
-  registrar.listen("/codeflare/chart/events", (args) => import("./Events").then((_) => _.default(args)), {
-    needsUI: true,
-  })
+  registrar.listen(
+    "/codeflare/chart/events",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./Events"))
+        .then((_) => _.default(args)),
+    {
+      needsUI: true,
+      flags,
+    }
+  )
+
+  registrar.listen("/codeflare/problems", (args) =>
+    mountArchives(args)
+      .then(() => import("./problems"))
+      .then((_) => _.default(args))
+  )
 }
@@ -16,48 +16,186 @@
 
 import Event from "./Event"
 
-type EventType = "Pulling" | "Pulled"
-export type KubeEvent = Event<EventType, { node: string }>
+/** The Kubernetes event reasons that we model; any others are modeled as `Other` */
+const reasons = [
+  "Scheduled",
+  "FailedScheduling",
+  "Pulling",
+  "Pulled",
+  "Created",
+  "Started",
+  "Killing",
+  "BackOff",
+  "OOMKilling",
+  "Evicted",
+  "Unhealthy",
+  "FailedMount",
+  "ScalingReplicaSet",
+  "SuccessfulCreate",
+  "SuccessfulDelete",
+  "AddedInterface",
+] as const
 
-function findPrevious(M: KubeEvent[], node: KubeEvent["node"], type: EventType) {
+type EventType = typeof reasons[number] | "Other"
+
+export type KubeEvent = Event<
+  EventType,
+  {
+    /** The involved object, e.g. `pod/mycluster-ray-head-type-2s9nz` */
+    object: string
+
+    /** The Kubernetes event type */
+    kubeType: "Normal" | "Warning"
+
+    /** The Kubernetes event reason, e.g. `BackOff`; this may be more specific than `type` */
+    reason: string
+
+    /** Number of times we have seen this event for this object */
+    count: number
+  }
+>
+
+function isKnownReason(reason: string): reason is typeof reasons[number] {
+  return (reasons as readonly string[]).includes(reason)
+}
+
+/** Units of the LAST SEEN column, e.g. `3h1m` or `5m31s` */
+const ageUnits: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+/** @return the given LAST SEEN age, e.g. `3h1m`, in milliseconds; `<unknown>` ages are 0 */
+export function parseAge(age: string): number {
+  let millis = 0
+  const pattern = /(\d+)([smhd])/g
+  for (let match = pattern.exec(age); match; match = pattern.exec(age)) {
+    millis += parseInt(match[1], 10) * ageUnits[match[2]]
+  }
+  return millis
+}
+
+/** Units of the durations that Kubernetes reports in event messages, e.g. `5m31.366599351s` or `710ms` */
+const durationUnits: Record<string, number> = {
+  ns: 1e-6,
+  us: 1e-3,
+  µs: 1e-3,
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+}
+
+/**
+ * @return the duration, in milliseconds, that the given event message
+ * reports, e.g. `Successfully pulled image "x" in 5m31.366599351s`, or
+ * 0 if it reports none
+ */
+export function parseDuration(message: string): number {
+  const match = message.match(/ in ((?:\d+(?:\.\d+)?(?:ns|us|µs|ms|s|m|h))+)(\s|$)/)
+  if (!match) {
+    return 0
+  }
+
+  let millis = 0
+  const pattern = /(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g
+  for (let part = pattern.exec(match[1]); part; part = pattern.exec(match[1])) {
+    millis += parseFloat(part[1]) * durationUnits[part[2]]
+  }
+  return millis
+}
+
+/** @return the time of the latest event we have seen for the given `object`, or 0 if we have seen none */
+function lastSeen(M: KubeEvent[], object: KubeEvent["object"]) {
+  return M.reduce((max, evt) => (evt.object !== object ? max : Math.max(max, evt.timestamp, evt.endTimestamp || 0)), 0)
+}
+
+function findPrevious(M: KubeEvent[], object: KubeEvent["object"], type: EventType, message?: string) {
   for (let idx = M.length - 1; idx >= 0; idx--) {
     const evt = M[idx]
-    if (evt.type === type && evt.node === node) {
+    if (evt.type === type && evt.object === object && (message === undefined || evt.message === message)) {
       return evt
     }
   }
 }
 
-export function collateEvent(M: KubeEvent[], line: string): KubeEvent[] {
-  const pullMatch = line.match(/(Pulling|Pulled)\s+(\S+)\s+(.+)$/)
-  if (pullMatch) {
-    const type = pullMatch[1] as EventType
-    const node = pullMatch[2]
-    const message = pullMatch[3]
-    const state = type === "Pulling" ? "InProgress" : "Done"
+/**
+ * Collate one row of `kubectl get events --watch` output, i.e. of a
+ * table with columns LAST SEEN, TYPE, REASON, OBJECT, MESSAGE.
+ *
+ * The LAST SEEN column is an age relative to when the row was
+ * printed; `now` is our best guess of that time: when following a
+ * run, the time we received the row; otherwise, the start of the run.
+ * After the initial listing, `--watch` prints each event as it
+ * happens, with an age of `0s`, so the age alone cannot order them;
+ * we instead rely on the capture order, i.e. that an event follows any
+ * earlier events of the same object, and on the durations that some
+ * events report, e.g. the time it took to pull an image.
+ */
+export function collateEvent(M: KubeEvent[], line: string, now: number): KubeEvent[] {
+  const match = line.match(/^\s*(\S+)\s+(Normal|Warning)\s+(\S+)\s+(\S+)\s+(.*)$/)
+  if (match) {
+    const kubeType = match[2] as KubeEvent["kubeType"]
+    const reason = match[3]
+    const object = match[4]
+    const message = match[5].trim()
+    const timestamp = Math.max(now - parseAge(match[1]), lastSeen(M, object))
+    const type = isKnownReason(reason) ? reason : "Other"
+
+    const repeat = findPrevious(M, object, type, message)
+    if (repeat && repeat.reason === reason) {
+      // kubernetes re-reports recurring events, e.g. BackOff; count, rather than duplicate, them
+      repeat.count++
+      return M
+    }
 
     if (type === "Pulled") {
-      const pulling = findPrevious(M, node, "Pulling")
-      if (pulling) {
+      const pulling = findPrevious(M, object, "Pulling")
+      if (pulling && pulling.state === "InProgress") {
         pulling.state = "Done"
+        pulling.endTimestamp = Math.max(timestamp, pulling.timestamp + parseDuration(message))
+        return M
       }
-    } else {
-      M.push({
-        name: "Pulling base image",
-        subtitle: node,
-        node,
-        type,
-        message,
-        state,
-        timestamp: -1,
-      })
     }
+
+    M.push({
+      name: object.replace(/^[^/]+\//, ""),
+      subtitle: reason,
+      object,
+      kubeType,
+      reason,
+      count: 1,
+      type,
+      message,
+      state: kubeType === "Warning" ? "Error" : type === "Pulling" ? "InProgress" : "Done",
+      timestamp,
+    })
   }
 
   return M
 }
 
-/** @return lifecycle events from Kubernetes */
-export default function kubeEvents(kubeEvents: string): KubeEvent[] {
-  return kubeEvents.split(/\n/).reduce(collateEvent, [] as KubeEvent[])
+/** @return the given events grouped by their involved object, in order of each object's first event */
+export function byObject(events: KubeEvent[]): Record<string, KubeEvent[]> {
+  return events.reduce((M, evt) => {
+    if (!M[evt.object]) {
+      M[evt.object] = []
+    }
+    M[evt.object].push(evt)
+    return M
+  }, {} as Record<string, KubeEvent[]>)
+}
+
+/**
+ * @param now our best guess as to when the capture of `kubeEvents`
+ * began, usually the start of the run, against which we resolve the
+ * LAST SEEN ages
+ *
+ * @return lifecycle events from Kubernetes, grouped by object
+ */
+export default function kubeEvents(kubeEvents: string, now: number): KubeEvent[] {
+  const events = kubeEvents.split(/\n/).reduce((M, line) => collateEvent(M, line, now), [] as KubeEvent[])
+  return Object.values(byObject(events)).flat()
 }
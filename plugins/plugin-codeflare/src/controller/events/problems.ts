@@ -0,0 +1,68 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Arguments, Table, encodeComponent } from "@kui-shell/core"
+
+import failureEvents from "./failures"
+import RunDirectory from "../run/RunDirectory"
+import { unquote } from "../../lib/util"
+
+/** Keep the excerpt column of the table to one short line */
+function brief(message: string) {
+  return message.length > 100 ? message.slice(0, 99) + "…" : message
+}
+
+/**
+ * @return a `Table` of the failures spotted in the job logs of the
+ * given run; clicking on a row opens the job logs at the offending line
+ */
+export default async function problems(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare problems <filepath>")
+  }
+
+  const run = new RunDirectory(filepath, args.REPL)
+  const jobFilepath = run.filepath("logs")
+  const [logs, startTime] = await Promise.all([run.logs(), run.startTime()])
+  const events = failureEvents(logs, startTime)
+
+  if (events.length === 0) {
+    return "No problems detected"
+  }
+
+  const table: Table = {
+    header: {
+      name: "PROBLEM",
+      attributes: [
+        { key: "WORKER", value: "WORKER" },
+        { key: "LINE", value: "LINE" },
+        { key: "EXCERPT", value: "EXCERPT" },
+      ],
+    },
+    body: events.map((evt) => ({
+      name: evt.signature,
+      onclick: () => args.REPL.pexec(`codeflare tailf ${encodeComponent(jobFilepath)} --line ${evt.line}`),
+      attributes: [
+        { key: "WORKER", value: evt.ip || "-" },
+        { key: "LINE", value: evt.line.toString() },
+        { key: "EXCERPT", value: brief(evt.message), css: "red-text" },
+      ],
+    })),
+  }
+
+  return table
+}
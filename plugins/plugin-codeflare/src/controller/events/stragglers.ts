@@ -0,0 +1,106 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TorchEvent } from "./torch"
+
+/** By default, a worker whose progress rate is more than 20% below the median is a straggler */
+export const defaultMargin = 0.2
+
+/** The training progress rate of one worker */
+export type Rate = {
+  ip: string
+
+  /** Epochs completed per hour, including fractional progress through an Epoch */
+  epochsPerHour: number
+}
+
+/** A worker whose progress rate lags the median rate across workers */
+export type Straggler = Rate & {
+  /** How far behind the median rate this worker is, as a fraction of the median */
+  lag: number
+}
+
+/**
+ * Each completed Iteration or Epoch gives us one sample of a worker's
+ * progress, measured in (fractional) Epochs.
+ *
+ * @return the (time, progress) samples of each worker
+ */
+function progressSamples(events: TorchEvent[]) {
+  return events
+    .filter((_) => _.state === "Done" && _.endTimestamp !== undefined && _.nSteps > 0)
+    .reduce((M, evt) => {
+      const progress =
+        evt.type === "Iteration" ? evt.epoch + (evt.step + 1) / evt.nSteps : evt.type === "Epoch" ? evt.step + 1 : -1
+
+      if (progress >= 0) {
+        if (!M[evt.ip]) {
+          M[evt.ip] = []
+        }
+        M[evt.ip].push({ timestamp: evt.endTimestamp as number, progress })
+      }
+      return M
+    }, {} as Record<string, { timestamp: number; progress: number }[]>)
+}
+
+/** @return the progress rate of each worker, from its earliest to its latest progress sample */
+export function progressRates(events: TorchEvent[]): Rate[] {
+  return Object.entries(progressSamples(events))
+    .map(([ip, samples]) => {
+      const first = samples.reduce((min, _) => (_.timestamp < min.timestamp ? _ : min))
+      const last = samples.reduce((max, _) => (_.timestamp > max.timestamp ? _ : max))
+      const hours = (last.timestamp - first.timestamp) / 1000 / 60 / 60
+
+      return hours <= 0 ? undefined : { ip, epochsPerHour: (last.progress - first.progress) / hours }
+    })
+    .filter((_): _ is Rate => _ !== undefined)
+}
+
+function median(values: number[]) {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * A straggler is a worker whose progress rate is more than `margin`
+ * (a fraction, e.g. 0.2) below the median rate of all workers. In a
+ * data-parallel job, one such worker holds back the whole cluster.
+ *
+ * @return the stragglers among the workers of the given events, slowest first
+ */
+export default function stragglers(events: TorchEvent[], margin = defaultMargin): Straggler[] {
+  const rates = progressRates(events)
+  if (rates.length < 2) {
+    // we need peers to compare against
+    return []
+  }
+
+  const medianRate = median(rates.map((_) => _.epochsPerHour))
+  if (medianRate <= 0) {
+    return []
+  }
+
+  return rates
+    .map((rate) => Object.assign({}, rate, { lag: (medianRate - rate.epochsPerHour) / medianRate }))
+    .filter((_) => _.lag > margin)
+    .sort((a, b) => b.lag - a.lag)
+}
+
+/** @return a one-line description of the given stragglers, e.g. `10.0.0.2 (35% slower than median)` */
+export function describeStragglers(stragglers: Straggler[]) {
+  return stragglers.map((_) => `${_.ip} (${(_.lag * 100).toFixed(0)}% slower than median)`).join(", ")
+}
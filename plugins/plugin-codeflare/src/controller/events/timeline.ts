@@ -0,0 +1,57 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenericEvent } from "./Event"
+
+/** One bar of a timeline: an `Event` from its start to its completion */
+export type Span = Pick<GenericEvent, "name" | "type" | "state" | "message"> & {
+  /** The timeline row of this span, e.g. the ip of the worker that emitted it */
+  lane: string
+
+  /** Absolute timestamp of the start of the span */
+  start: number
+
+  /** Absolute timestamp of the end of the span */
+  end: number
+}
+
+/** These events are too fine-grained to draw as bars; their enclosing Epoch or Evaluation suffices */
+const tooFine = ["Iteration", "EvaluationStep", "Marker"]
+
+/** @return the timeline row for the given event, i.e. its node/ip, or the Kubernetes object it concerns */
+export function laneOf(evt: GenericEvent): string {
+  const detail = evt as GenericEvent & { ip?: string; object?: string }
+  return detail.ip || detail.object || evt.name
+}
+
+/**
+ * @param now the end of events still in progress
+ * @return a `Span` for each event that has started
+ */
+export default function spans(events: GenericEvent[], now = Date.now()): Span[] {
+  return events
+    .filter((_) => !_.hidden && _.state !== "Pending" && _.timestamp > 0 && !tooFine.includes(_.type))
+    .map((evt) => ({
+      lane: laneOf(evt),
+      name: evt.name,
+      type: evt.type,
+      state: evt.state,
+      message: evt.message,
+      start: evt.timestamp,
+      end: Math.max(evt.timestamp, evt.endTimestamp || (evt.state === "InProgress" ? now : evt.timestamp)),
+    }))
+    .sort((a, b) => a.lane.localeCompare(b.lane) || a.start - b.start)
+}
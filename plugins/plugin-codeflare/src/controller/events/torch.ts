@@ -58,6 +58,8 @@ function findEpoch(M: TorchEvent[], ip: TorchEvent["ip"], state: TorchEvent["sta
 }
 
 class TorchEventImpl implements TorchEvent {
+  public endTimestamp?: number
+
   public constructor(
     public readonly name: string,
     public readonly ip: string,
@@ -65,27 +67,96 @@ class TorchEventImpl implements TorchEvent {
     public readonly step: number,
     public readonly nSteps: number,
     public readonly epoch: number,
-    public readonly timestamp: number,
+    public timestamp: number,
     public state: TorchEvent["state"] = "InProgress",
     public readonly message = `Epoch ${epoch}${type !== "Epoch" ? ` - ${type} ${step}` : ""} of ${nSteps}`
   ) {}
 }
 
-export function collateEvent(M: TorchEvent[], line: string) {
-  const startMatch = line.match(/ip=([\d.]+)\)\s+(\d+\/\d+\/\d+\s+\d+:\d+:\d+)\s+.+\*\*\*\*\* Running training/)
-  if (startMatch) {
-    const ip = startMatch[1]
+/** For each tqdm bar, by worker and type, when it started and its most recently reported elapsed time */
+type Bars = Record<string, { start: number; elapsed: number }>
+
+/** We need some cross-line context; we keep it on the side, keyed by the events model */
+const contexts = new WeakMap<TorchEvent[], Bars>()
+
+/** @return the given tqdm elapsed time, e.g. `01:02` or `1:02:03`, in milliseconds */
+function parseElapsed(elapsed: string) {
+  return elapsed.split(/:/).reduce((sum, part) => sum * 60 + parseInt(part, 10), 0) * 1000
+}
+
+/**
+ * Remember the most recent timestamp printed by the given worker, via
+ * a hidden `Marker` event. Progress lines are not timestamped, so we
+ * use this as their time base.
+ */
+function mark(M: TorchEvent[], ip: string, timestamp: number) {
+  const marker = findPrevious(M, ip, "Marker", "Done")
+  if (marker) {
+    marker.timestamp = timestamp
+  } else {
     const type = "Marker"
-    const name = type
-    const message = type
-    const hidden = true
-    const timestamp = new Date(startMatch[2]).getTime()
-    const epoch = -1
-    const step = -1
-    const nSteps = -1
-    const state = "Done"
-    M.push({ ip, name, message, state, type, hidden, timestamp, epoch, step, nSteps })
-    return M
+    M.push({
+      ip,
+      name: type,
+      message: type,
+      state: "Done",
+      type,
+      hidden: true,
+      timestamp,
+      epoch: -1,
+      step: -1,
+      nSteps: -1,
+    })
+  }
+}
+
+/**
+ * @return the timestamp of a tqdm progress line: the start of its bar,
+ * as of the nearest preceding timestamped line, plus the elapsed time
+ * tqdm reports; or `undefined`, if the worker has printed no
+ * timestamps yet. Iteration and Evaluation bars restart long after
+ * that line, so we anchor them at the current time of the enclosing
+ * Epoch bar.
+ */
+function progressTimestamp(M: TorchEvent[], ip: string, type: EventType, n: number, elapsedString?: string) {
+  const marker = findPrevious(M, ip, "Marker", "Done")
+  if (!marker) {
+    return undefined
+  }
+
+  const base = marker.timestamp
+  if (elapsedString === undefined) {
+    return base
+  }
+
+  let bars = contexts.get(M)
+  if (!bars) {
+    bars = {}
+    contexts.set(M, bars)
+  }
+
+  const key = `${ip} ${type}`
+  const elapsed = parseElapsed(elapsedString)
+  const bar = bars[key]
+  if (!bar || n === 0 || elapsed < bar.elapsed) {
+    // a new bar, or tqdm restarted this one
+    const epoch = type !== "Epoch" ? bars[`${ip} Epoch`] : undefined
+    const now = epoch ? Math.max(base, epoch.start + epoch.elapsed) : base
+    bars[key] = { start: now - elapsed, elapsed }
+  } else {
+    bar.elapsed = elapsed
+  }
+
+  return bars[key].start + elapsed
+}
+
+export function collateEvent(M: TorchEvent[], line: string) {
+  const timestampMatch = line.match(/ip=([\d.]+)\)\s+(\d+[-/]\d+[-/]\d+\s+\d+:\d+:\d+)/)
+  if (timestampMatch) {
+    const timestamp = new Date(timestampMatch[2]).getTime()
+    if (!isNaN(timestamp)) {
+      mark(M, timestampMatch[1], timestamp)
+    }
   }
 
   // Data fetch/uncompress events
@@ -115,6 +186,7 @@ export function collateEvent(M: TorchEvent[], line: string) {
       const prev = findPrevious(M, ip, type, "InProgress")
       if (prev) {
         prev.state = state
+        prev.endTimestamp = timestamp
       } else {
         console.error("Missing Data: begin event for this Data: end event", line)
       }
@@ -122,7 +194,9 @@ export function collateEvent(M: TorchEvent[], line: string) {
   }
 
   // Torch Events
-  const match = line.match(/ip=([\d.]+)\)\s+(Evaluation|Epoch|Iteration):\s+(\d+)%\|[^|]+\|\s(\d+)\/(\d+)/)
+  const match = line.match(
+    /ip=([\d.]+)\)\s+(Evaluation|Epoch|Iteration):\s+(\d+)%\|[^|]+\|\s(\d+)\/(\d+)(?:\s+\[([\d:]+)<)?/
+  )
   if (match) {
     const ip = match[1]
     const type = match[2] as EventType
@@ -140,8 +214,11 @@ export function collateEvent(M: TorchEvent[], line: string) {
         : type === "Epoch"
         ? { step, nSteps, state: "InProgress" }
         : findEpoch(M, ip) || { step: -1, nSteps: 0, state: "InProgress" }
-    const timestampMarker = findPrevious(M, ip, "Marker", "Done")
-    const timestamp = timestampMarker ? timestampMarker.timestamp : Date.now()
+    const timestamp = progressTimestamp(M, ip, type, parseInt(match[4], 10), match[6])
+    if (timestamp === undefined) {
+      // we cannot place progress that precedes any timestamp from this worker
+      return M
+    }
 
     if (type === "Evaluation") {
       if (step === 0) {
@@ -155,6 +232,7 @@ export function collateEvent(M: TorchEvent[], line: string) {
           const priorEvaluationStep = findPrevious(M, ip, "EvaluationStep", "Pending", idx, epoch.step)
           if (priorEvaluationStep) {
             priorEvaluationStep.state = "Done"
+            priorEvaluationStep.endTimestamp = timestamp
           }
         }
 
@@ -162,6 +240,7 @@ export function collateEvent(M: TorchEvent[], line: string) {
           const priorEvaluation = findPrevious(M, ip, "Evaluation", "InProgress", 0, epoch.step)
           if (priorEvaluation) {
             priorEvaluation.state = "Done"
+            priorEvaluation.endTimestamp = timestamp
           }
         }
       }
@@ -171,7 +250,9 @@ export function collateEvent(M: TorchEvent[], line: string) {
     } else if (step > 0) {
       const thisEpoch = findPrevious(M, ip, type, "Pending", step)
       if (thisEpoch) {
+        // this Epoch was pre-filled; now we know when it actually started
         thisEpoch.state = "InProgress"
+        thisEpoch.timestamp = timestamp
       }
     }
 
@@ -183,11 +264,21 @@ export function collateEvent(M: TorchEvent[], line: string) {
           : findPrevious(M, ip, type, "InProgress", step - 1, epoch.step - 1) // previous epoch
       if (prev) {
         prev.state = "Done"
+        prev.endTimestamp = timestamp
       } else if (type === "Iteration" && step === nSteps - 1) {
         // torch repeat the last step to indicate fully done
         const prev = findPrevious(M, ip, type, "Pending", nSteps - 1, epoch.step) // last iteration
         if (prev) {
           prev.state = "Done"
+          prev.endTimestamp = timestamp
+        }
+      }
+
+      if (type === "Iteration" && (prev || step < nSteps - 1)) {
+        const thisIteration = findPrevious(M, ip, type, "Pending", step, epoch.step)
+        if (thisIteration) {
+          // this Iteration was pre-filled; now we know when it actually started
+          thisIteration.timestamp = timestamp
         }
       }
     }
@@ -229,6 +320,38 @@ function sortFn(a: TorchEvent, b: TorchEvent) {
   )
 }
 
+/** @return the duration of each completed Epoch */
+export function epochDurations(events: TorchEvent[]) {
+  return events
+    .filter((_) => _.type === "Epoch" && _.state === "Done" && _.endTimestamp !== undefined)
+    .map((_) => ({ ip: _.ip, epoch: _.step, duration: (_.endTimestamp as number) - _.timestamp }))
+}
+
+/**
+ * Extrapolate from the mean duration of the completed Epochs of each
+ * worker to when that worker will complete its in-progress Epoch and
+ * any remaining ones.
+ *
+ * @return the estimated completion time of the slowest worker, or
+ * `undefined` if we have too little to go on
+ */
+export function estimatedCompletion(events: TorchEvent[]): number | undefined {
+  const durations = epochDurations(events)
+
+  const etas = events
+    .filter((_) => _.type === "Epoch" && _.state === "InProgress")
+    .map((current) => {
+      const done = durations.filter((_) => _.ip === current.ip)
+      if (done.length > 0) {
+        const mean = done.reduce((sum, _) => sum + _.duration, 0) / done.length
+        return current.timestamp + mean * (current.nSteps - current.step)
+      }
+    })
+    .filter((_): _ is number => _ !== undefined)
+
+  return etas.length === 0 ? undefined : Math.max(...etas)
+}
+
 /** @return lifecycle events (Epoch, Iteration) for Torch training */
 export default function torchEvents(jobLogs: string): TorchEvent[] {
   return jobLogs
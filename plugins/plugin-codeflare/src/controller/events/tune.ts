@@ -0,0 +1,242 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Event, { State } from "./Event"
+
+/** The trial statuses that Ray Tune reports in its status tables */
+type TrialStatus = "PENDING" | "RUNNING" | "PAUSED" | "TERMINATED" | "ERROR"
+
+/** A `TuneEvent` tracks the lifecycle of one Ray Tune trial */
+export type TuneEvent = Event<
+  "Trial",
+  {
+    /** The Tune trial name, e.g. `train_fn_a1b2c_00001` */
+    trial: string
+
+    /** The most recent Tune status of this trial */
+    status: TrialStatus
+
+    /** The hyperparameters of this trial, as printed in the status table */
+    hyperparameters: Record<string, string>
+
+    /** The last reported value of the metric we rank trials by */
+    metric?: { name: string; value: number }
+  }
+>
+
+/** Parsing context that spans lines, e.g. the columns of the most recent status table */
+type Context = {
+  /** Columns of the most recent trial status table */
+  columns: string[]
+
+  /** Timestamp of the most recent `Current time:`, or otherwise timestamped, line */
+  timestamp?: number
+
+  /** The metric and mode of the sweep, if Tune has told us, via its `Current best trial` lines */
+  best?: { trial: string; metric: string }
+}
+
+/** We need some cross-line context; we keep it on the side, keyed by the events model */
+const contexts = new WeakMap<TuneEvent[], Context>()
+
+function contextOf(M: TuneEvent[]): Context {
+  let context = contexts.get(M)
+  if (!context) {
+    context = { columns: [] }
+    contexts.set(M, context)
+  }
+  return context
+}
+
+function stateOf(status: TrialStatus): State {
+  return status === "RUNNING"
+    ? "InProgress"
+    : status === "TERMINATED"
+    ? "Done"
+    : status === "ERROR"
+    ? "Error"
+    : "Pending"
+}
+
+/** Columns of a status table that are neither hyperparameters nor metrics */
+const bookkeeping = ["Trial name", "status", "loc", "iter", "total time (s)", "# failures", "error file"]
+
+/** @return the cells of the given status table row, or undefined if `line` is not a table row */
+function cellsOf(line: string) {
+  const match = line.match(/^\s*\|(.+)\|\s*$/)
+  return match ? match[1].split(/\|/).map((_) => _.trim()) : undefined
+}
+
+/** @return whether this metric is one we should minimize, in the absence of guidance from Tune */
+function isMinimized(metric: string) {
+  return /loss|err|time/i.test(metric)
+}
+
+/** Ensure that we have an event for the given `trial` */
+function findOrCreate(M: TuneEvent[], trial: string, timestamp: number) {
+  const existing = M.find((_) => _.trial === trial)
+  if (existing) {
+    return existing
+  } else {
+    const evt: TuneEvent = {
+      name: trial,
+      subtitle: "Ray Tune Trial",
+      trial,
+      type: "Trial",
+      status: "PENDING",
+      state: "Pending",
+      hyperparameters: {},
+      message: trial,
+      timestamp,
+    }
+    M.push(evt)
+    return evt
+  }
+}
+
+/** Update the `status` and `state` of the given trial */
+function setStatus(evt: TuneEvent, status: TrialStatus, timestamp: number) {
+  evt.status = status
+  evt.state = stateOf(status)
+  if (evt.state === "Done" || evt.state === "Error") {
+    evt.endTimestamp = evt.endTimestamp || timestamp
+  }
+}
+
+/** Keep the tooltip `message` in sync with the trial's hyperparameters and metric */
+function updateMessage(evt: TuneEvent) {
+  const hyperparameters = Object.entries(evt.hyperparameters)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ")
+  const metric = evt.metric ? `${evt.metric.name}=${evt.metric.value}` : "no result yet"
+  evt.message = `${evt.status} ${hyperparameters} → ${metric}`
+}
+
+/** Highlight the best trial, preferring Tune's own judgment */
+function highlightBest(M: TuneEvent[], context: Context) {
+  const scored = M.flatMap((evt) => (evt.metric ? [{ evt, value: evt.metric.value, name: evt.metric.name }] : []))
+
+  // Tune identifies the best trial by its id, which is a suffix of the trial name
+  const bestId = context.best ? context.best.trial : undefined
+  let best = bestId ? M.find((_) => _.trial.endsWith(bestId)) : undefined
+  if (!best && scored.length > 0) {
+    const minimize = isMinimized(scored[0].name)
+    best = scored.reduce((best, _) => ((minimize ? _.value < best.value : _.value > best.value) ? _ : best)).evt
+  }
+
+  M.forEach((evt) => (evt.highlight = evt === best))
+}
+
+/** Fold one row of a status table into the model */
+function collateRow(M: TuneEvent[], context: Context, cells: string[], timestamp: number) {
+  const row = context.columns.reduce((row, column, idx) => {
+    row[column] = cells[idx] || ""
+    return row
+  }, {} as Record<string, string>)
+
+  const trial = row["Trial name"]
+  const status = row.status as TrialStatus
+  if (!trial || !/^(PENDING|RUNNING|PAUSED|TERMINATED|ERROR)$/.test(status)) {
+    return
+  }
+
+  const evt = findOrCreate(M, trial, timestamp)
+  setStatus(evt, status, timestamp)
+
+  // hyperparameters precede the `iter` column; metrics follow `total time (s)`
+  const iterIdx = context.columns.indexOf("iter")
+  context.columns.forEach((column, idx) => {
+    if (!bookkeeping.includes(column) && row[column]) {
+      if (iterIdx < 0 || idx < iterIdx) {
+        evt.hyperparameters[column] = row[column]
+      } else {
+        const value = parseFloat(row[column])
+        if (!isNaN(value) && (!context.best || context.best.metric === column || !evt.metric)) {
+          evt.metric = { name: column, value }
+        }
+      }
+    }
+  })
+
+  updateMessage(evt)
+}
+
+/**
+ * Collate one line of Ray Tune output, i.e. its `== Status ==`
+ * blocks with their trial tables, and its `Trial ... completed` and
+ * `Trial ... errored` lines.
+ */
+export function collateEvent(M: TuneEvent[], line: string): TuneEvent[] {
+  const context = contextOf(M)
+
+  const timeMatch = line.match(/(Current time:\s+)?(\d+-\d+-\d+\s+\d+:\d+:\d+)/)
+  if (timeMatch) {
+    const timestamp = new Date(timeMatch[2]).getTime()
+    if (!isNaN(timestamp)) {
+      context.timestamp = timestamp
+    }
+    if (timeMatch[1]) {
+      return M
+    }
+  }
+
+  const bestMatch = line.match(/Current best trial:\s+(\S+)\s+with\s+([^=\s]+)=(\S+)/)
+  if (bestMatch) {
+    context.best = { trial: bestMatch[1], metric: bestMatch[2] }
+    const evt = M.find((_) => _.trial.endsWith(bestMatch[1]))
+    if (evt) {
+      evt.metric = { name: bestMatch[2], value: parseFloat(bestMatch[3]) }
+      updateMessage(evt)
+    }
+    highlightBest(M, context)
+    return M
+  }
+
+  const timestamp = context.timestamp
+  if (timestamp === undefined) {
+    // we cannot place this line in time; Tune prints the current time atop each status table
+    return M
+  }
+
+  const completedMatch = line.match(/Trial\s+(\S+)\s+(completed|errored)/)
+  if (completedMatch) {
+    const evt = findOrCreate(M, completedMatch[1], timestamp)
+    setStatus(evt, completedMatch[2] === "completed" ? "TERMINATED" : "ERROR", timestamp)
+    updateMessage(evt)
+    highlightBest(M, context)
+    return M
+  }
+
+  const cells = cellsOf(line)
+  if (cells) {
+    if (cells[0] === "Trial name") {
+      context.columns = cells
+    } else if (context.columns.length > 0 && context.columns[1] === "status") {
+      collateRow(M, context, cells, timestamp)
+      highlightBest(M, context)
+    }
+  } else if (!line.trim()) {
+    // a blank line ends the table
+    context.columns = []
+  }
+
+  return M
+}
+
+/** @return one lifecycle event per Ray Tune trial, with the best trial highlighted */
+export default function tuneEvents(jobLogs: string): TuneEvent[] {
+  return jobLogs.split(/\n/).reduce(collateEvent, [] as TuneEvent[])
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CommandOptions, Registrar } from "@kui-shell/core"
+
+import { mountArchives } from "../archive"
+
+export const exportFlags: CommandOptions["flags"] = {
+  alias: { output: ["o"] },
+}
+
+/** Command registration for headless export of parsed run data */
+export default function registerExportCommands(registrar: Registrar) {
+  registrar.listen(
+    "/codeflare/export/metrics",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./metrics"))
+        .then((_) => _.default(args)),
+    {
+      flags: exportFlags,
+    }
+  )
+  registrar.listen(
+    "/codeflare/export/trace",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./trace"))
+        .then((_) => _.default(args)),
+    {
+      flags: exportFlags,
+    }
+  )
+}
@@ -0,0 +1,144 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { writeFile } from "fs/promises"
+import { Arguments, ParsedOptions } from "@kui-shell/core"
+
+import LogRecord from "../charts/LogRecord"
+import RunDirectory from "../run/RunDirectory"
+import { expand, unquote } from "../../lib/util"
+
+type Format = "json" | "csv"
+
+export interface ExportOptions extends ParsedOptions {
+  format?: Format
+
+  /** Write the metrics to this file, rather than to stdout */
+  o?: string
+  output?: string
+
+  kind?: string
+}
+
+/** The kinds of metrics we can export, and how to parse each from a given run directory */
+const kinds = {
+  gpu: (run: RunDirectory) => run.gpu(),
+  cpu: (run: RunDirectory) => run.vmstat(),
+  memory: async (run: RunDirectory) => {
+    // anchor the manufactured timestamps at the start of the job
+    return run.memory(await run.startTime())
+  },
+}
+
+type Kind = keyof typeof kinds
+
+type Metrics = Partial<Record<Kind, LogRecord<unknown>[]>>
+
+function isKind(kind: string): kind is Kind {
+  return kind in kinds
+}
+
+/**
+ * Parse the metrics of the given `kinds`. If the user did not ask
+ * for a particular kind, a run that lacks the data for some kind
+ * will export only the kinds it has.
+ */
+export async function parse(filepath: string, REPL: Arguments["REPL"], requested?: Kind[]): Promise<Metrics> {
+  const toParse = requested || (Object.keys(kinds) as Kind[])
+
+  const run = new RunDirectory(filepath, REPL)
+  const data = await Promise.all(
+    toParse.map((kind) => {
+      const records = kinds[kind](run)
+      return requested ? records : records.catch(() => undefined)
+    })
+  )
+
+  return toParse.reduce((M, kind, idx) => {
+    const records = data[idx]
+    if (records) {
+      M[kind] = records
+    }
+    return M
+  }, {} as Metrics)
+}
+
+/** Flatten nested objects, e.g. the `metrics` of a gpu record, into dotted column names */
+function flatten(record: Record<string, unknown>, prefix = ""): Record<string, string | number> {
+  return Object.entries(record).reduce((row, [key, value]) => {
+    if (value !== null && typeof value === "object") {
+      Object.assign(row, flatten(value as Record<string, unknown>, `${prefix}${key}.`))
+    } else if (value !== undefined) {
+      row[`${prefix}${key}`] = value as string | number
+    }
+    return row
+  }, {} as Record<string, string | number>)
+}
+
+/** Quote a CSV cell, if needed */
+function cell(value: string | number | undefined): string {
+  const str = value === undefined || (typeof value === "number" && isNaN(value)) ? "" : value.toString()
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+/**
+ * @return a CSV rendering of the given `metrics`, one row per
+ * record, with a leading `kind` column; the columns are the union of
+ * the fields of all exported records
+ */
+export function toCSV(metrics: Metrics): string {
+  const rows = Object.entries(metrics).flatMap(([kind, records]) =>
+    (records || []).map((record) => Object.assign({ kind }, flatten(record as Record<string, unknown>)))
+  )
+
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))))
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((row) => row.map(cell).join(","))
+    .join("\n")
+}
+
+export default async function exportMetrics(args: Arguments<ExportOptions>) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error(
+      "Usage: codeflare export metrics <logdir> [--format json|csv] [-o metrics.json] [--kind gpu,cpu,memory]"
+    )
+  }
+
+  const format = args.parsedOptions.format || "json"
+  if (format !== "json" && format !== "csv") {
+    throw new Error(`Unsupported format ${format}; expected json or csv`)
+  }
+
+  const requested = args.parsedOptions.kind ? args.parsedOptions.kind.split(/,/).filter(Boolean) : undefined
+  const unknown = (requested || []).filter((_) => !isKind(_))
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported metrics kind ${unknown.join(",")}; expected one of ${Object.keys(kinds).join(",")}`)
+  }
+
+  const metrics = await parse(filepath, args.REPL, requested ? requested.filter(isKind) : undefined)
+
+  const content = format === "csv" ? toCSV(metrics) : JSON.stringify(metrics, undefined, 2)
+
+  const output = args.parsedOptions.output
+  if (output) {
+    await writeFile(expand(output), content)
+    return `Wrote ${Object.keys(metrics).join(",")} metrics to ${output}`
+  } else {
+    return content
+  }
+}
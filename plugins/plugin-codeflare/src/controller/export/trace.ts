@@ -0,0 +1,129 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { writeFile } from "fs/promises"
+import { Arguments, ParsedOptions } from "@kui-shell/core"
+
+import { expand, unquote } from "../../lib/util"
+import RunDirectory from "../run/RunDirectory"
+import { GenericEvent } from "../events/Event"
+import { laneOf } from "../events/timeline"
+import parseKubeEvents from "../events/kube"
+import parseTorchEvents from "../events/torch"
+
+export interface TraceOptions extends ParsedOptions {
+  /** Write the trace to this file, rather than to stdout */
+  o?: string
+  output?: string
+}
+
+/** One event in the Chrome trace event format; times are in microseconds */
+type TraceEvent = {
+  name: string
+  cat?: string
+  ph: "X" | "i" | "M"
+  pid: number
+  tid: number
+  ts?: number
+  dur?: number
+  s?: "t"
+  args?: Record<string, string>
+}
+
+/** Chrome trace event times are in microseconds */
+function micros(millis: number) {
+  return millis * 1000
+}
+
+/**
+ * @return the given events in Chrome trace event format, with one
+ * process per node/ip, and one thread per event type
+ */
+export function toTrace(events: { source: string; events: GenericEvent[] }[]) {
+  const pids: Record<string, number> = {}
+  const tids: Record<string, number> = {}
+  const metadata: TraceEvent[] = []
+
+  const pidOf = (lane: string) => {
+    if (!(lane in pids)) {
+      pids[lane] = Object.keys(pids).length + 1
+      metadata.push({ name: "process_name", ph: "M", pid: pids[lane], tid: 0, args: { name: lane } })
+    }
+    return pids[lane]
+  }
+
+  const tidOf = (pid: number, type: string) => {
+    const key = `${pid} ${type}`
+    if (!(key in tids)) {
+      tids[key] = Object.keys(tids).length + 1
+      metadata.push({ name: "thread_name", ph: "M", pid, tid: tids[key], args: { name: type } })
+    }
+    return tids[key]
+  }
+
+  const traceEvents = events.flatMap(({ source, events }) =>
+    events
+      .filter((_) => !_.hidden && _.state !== "Pending" && _.timestamp > 0)
+      .map((evt): TraceEvent => {
+        const pid = pidOf(laneOf(evt))
+        const tid = tidOf(pid, evt.type)
+        const args = { state: evt.state, message: evt.message }
+        const ts = micros(evt.timestamp)
+
+        return evt.endTimestamp !== undefined
+          ? { name: evt.type, cat: source, ph: "X", pid, tid, ts, dur: micros(evt.endTimestamp - evt.timestamp), args }
+          : { name: evt.type, cat: source, ph: "i", s: "t", pid, tid, ts, args }
+      })
+  )
+
+  return { traceEvents: [...metadata, ...traceEvents], displayTimeUnit: "ms" }
+}
+
+/** @return the Torch and Kubernetes events of the run in the given log directory */
+async function parse(filepath: string, REPL: Arguments["REPL"]) {
+  const run = new RunDirectory(filepath, REPL)
+
+  // the LAST SEEN ages of the kubernetes events are relative to when they were captured
+  const startTime = (await run.startTime()) || Date.now()
+
+  const [torch, kube] = await Promise.all([
+    run.logs().then(parseTorchEvents),
+    run.events().then((content) => parseKubeEvents(content, startTime)),
+  ])
+
+  return [
+    { source: "torch", events: torch },
+    { source: "kubernetes", events: kube },
+  ]
+}
+
+export default async function exportTrace(args: Arguments<TraceOptions>) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error("Usage: codeflare export trace <logdir> [-o trace.json]")
+  }
+
+  const trace = toTrace(await parse(filepath, args.REPL))
+  const json = JSON.stringify(trace)
+
+  const output = args.parsedOptions.output
+  if (output) {
+    await writeFile(expand(output), json)
+    return `Wrote ${trace.traceEvents.length} trace events to ${output}`
+  } else {
+    return json
+  }
+}
@@ -24,14 +24,31 @@ import tailf from "./tailf"
 import browse from "./browse"
 import charts from "./charts"
 import events from "./events"
+import exporter from "./export"
+import summary from "./summary"
+import analyze from "./analyze"
+import report from "./report"
 import dashboard from "./dashboard"
 import description from "./description"
+import { mountArchives } from "./archive"
 
 function help() {
   return `Usage:
 codeflare [run] [<task>] [-s /path/to/store] [-u]
 codeflare dashboard /path/to/logdir
-codeflare chart gpu /path/to/logdir`
+codeflare status /path/to/logdir
+codeflare notes /path/to/logdir
+codeflare get run [--tag key=value] [--starred]
+codeflare chart gpu /path/to/logdir
+codeflare chart memory /path/to/logdir
+codeflare chart metrics /path/to/logdir
+codeflare problems /path/to/logdir
+codeflare export metrics /path/to/logdir [--format json|csv] [-o metrics.json]
+codeflare export trace /path/to/logdir [-o trace.json]
+codeflare summarize /path/to/logdir [--straggler-margin 0.2]
+codeflare analyze /path/to/logdir
+codeflare report /path/to/logdir -o run.html
+codeflare validate run /path/to/logdir`
 }
 
 /** Register Kui Commands */
@@ -41,6 +58,10 @@ export default function registerCodeflareCommands(registrar: Registrar) {
   browse(registrar)
   charts(registrar)
   events(registrar)
+  exporter(registrar)
+  summary(registrar)
+  analyze(registrar)
+  report(registrar)
   dashboard(registrar)
   description(registrar)
   registrar.listen("/help", help)
@@ -57,9 +78,30 @@ export default function registerCodeflareCommands(registrar: Registrar) {
   registrar.listen("/codeflare/get/profile", () => import("./profile/get").then((_) => _.default()), {
     needsUI: true,
   })
+  registrar.listen(
+    "/codeflare/status",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./run/status"))
+        .then((_) => _.default(args)),
+    { needsUI: true }
+  )
+  registrar.listen("/codeflare/notes", (args) =>
+    mountArchives(args)
+      .then(() => import("./run/notes"))
+      .then((_) => _.default(args))
+  )
+  registrar.listen("/codeflare/validate/run", (args) =>
+    mountArchives(args)
+      .then(() => import("./run/validate"))
+      .then((_) => _.default(args))
+  )
   registrar.listen("/codeflare/get/run", (args) => import("./run/get").then((_) => _.default(args)), {
     needsUI: true,
     outputOnly: true,
+    flags: {
+      boolean: ["starred"],
+    },
   })
 
   // launch our explore guidebook
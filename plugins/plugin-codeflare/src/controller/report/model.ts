@@ -0,0 +1,112 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { basename } from "path"
+import { Arguments } from "@kui-shell/core"
+
+import RunDirectory, { JobDefinition } from "../run/RunDirectory"
+import toSpans, { Span } from "../events/timeline"
+import parseKubeEvents from "../events/kube"
+import parseTuneEvents from "../events/tune"
+import parseTorchEvents from "../events/torch"
+import parseFailureEvents from "../events/failures"
+import { Log as GpuLog } from "../charts/parsers/gpu"
+import { Log as VmstatLog } from "../charts/parsers/vmstat"
+import { Log as MemoryLog } from "../charts/parsers/memory"
+import { Summary, applicationSummary, workersSummary } from "../description"
+
+/** The content of a `Report` of one run */
+export type ReportModel = {
+  /** Heading of the report, e.g. the job id of the run */
+  title: string
+
+  /** Timestamp at which the report was generated */
+  generated: number
+
+  /** The Summary description of the run, if we have a job definition */
+  application?: Summary
+
+  /** The Workers description of the run, if we have a job definition */
+  workers?: Summary
+
+  /** Utilization samples, each possibly empty */
+  gpu: GpuLog[]
+  vmstat: VmstatLog[]
+  memory: MemoryLog[]
+
+  /** The events of the run, as timeline bars */
+  spans: Span[]
+
+  /** The last `nLogLines` lines of the application log */
+  logs: string[]
+
+  /** The total number of lines in the application log */
+  nLogLines: number
+
+  /** The source of the application, if captured */
+  source?: { source: string; language: string }
+}
+
+/** @return the given description of the job, or `undefined` if the job definition is missing or malformed */
+function describe(describer: (jobInfo: JobDefinition) => Summary, jobInfo?: JobDefinition) {
+  try {
+    return jobInfo ? describer(jobInfo) : undefined
+  } catch (err) {
+    // `codeflare validate run` reports what is wrong with the job definition
+    return undefined
+  }
+}
+
+/** @return the `Report` model of the run in the given log directory */
+export default async function parse(filepath: string, REPL: Arguments["REPL"], tail: number): Promise<ReportModel> {
+  const run = new RunDirectory(filepath, REPL)
+
+  const [jobInfo, job, startTime] = await Promise.all([run.jobDefinition(), run.job(), run.startTime()])
+
+  // utilization samples are optional, and the report covers whatever the run has
+  const [gpu, vmstat, memory, logs, kube, source] = await Promise.all([
+    run.gpu().catch(() => []),
+    run.vmstat().catch(() => []),
+    run.memory(startTime).catch(() => []),
+    run.logs(),
+    run.events(),
+    run.source(),
+  ])
+
+  // the LAST SEEN ages of the kubernetes events are relative to when they were captured
+  const events = [
+    ...parseTorchEvents(logs),
+    ...parseKubeEvents(kube, startTime || Date.now()),
+    ...parseTuneEvents(logs),
+    ...parseFailureEvents(logs, startTime),
+  ]
+
+  const lines = logs.length === 0 ? [] : logs.replace(/\n$/, "").split(/\n/)
+
+  return {
+    title: job ? job.jobid : basename(filepath.replace(/\/$/, "")),
+    generated: Date.now(),
+    application: describe(applicationSummary, jobInfo),
+    workers: describe(workersSummary, jobInfo),
+    gpu,
+    vmstat,
+    memory,
+    spans: toSpans(events),
+    logs: tail > 0 ? lines.slice(-tail) : [],
+    nLogLines: lines.length,
+    source,
+  }
+}
@@ -0,0 +1,79 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { writeFile } from "fs/promises"
+import { Arguments, ParsedOptions } from "@kui-shell/core"
+
+import parse, { ReportModel } from "./model"
+import stylesheet from "./style"
+import { expand, unquote } from "../../lib/util"
+
+import Report from "../../components/Report"
+
+export interface ReportOptions extends ParsedOptions {
+  /** Write the report to this file, rather than returning it */
+  output?: string
+
+  /** Include this many of the trailing lines of the application log */
+  tail?: number
+}
+
+/** By default, include this many of the trailing lines of the application log */
+const defaultTail = 200
+
+/** @return a standalone HTML document, with no external scripts or stylesheets */
+async function render(props: ReportModel) {
+  const { renderToStaticMarkup } = await import("react-dom/server")
+
+  return (
+    "<!DOCTYPE html>\n" +
+    renderToStaticMarkup(
+      <html lang="en">
+        <head>
+          <meta charSet="utf-8" />
+          <title>{props.title} - CodeFlare Run Report</title>
+          <style dangerouslySetInnerHTML={{ __html: stylesheet }} />
+        </head>
+        <body>
+          <Report {...props} />
+        </body>
+      </html>
+    )
+  )
+}
+
+/**
+ * Produce a self-contained HTML report of the run in the given log
+ * directory, for viewing in any browser.
+ */
+export default async function report(args: Arguments<ReportOptions>) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare report <logdir> [-o run.html] [--tail 200]")
+  }
+
+  const tail = typeof args.parsedOptions.tail === "number" ? args.parsedOptions.tail : defaultTail
+  const html = await render(await parse(filepath, args.REPL, tail))
+
+  const output = args.parsedOptions.output
+  if (output) {
+    await writeFile(expand(output), html)
+    return `Wrote a report of ${filepath} to ${output}`
+  } else {
+    return html
+  }
+}
@@ -0,0 +1,118 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The report is viewed outside of Kui, hence without any Kui theme;
+ * this defines the theme variables that the charts use, after the
+ * Linen theme, and lays out the sections of the report.
+ */
+const stylesheet = `
+:root {
+  --color-base00: #fff0e3;
+  --color-base01: #ffe3cb;
+  --color-base02: #ffa65c;
+  --color-base03: #fff3e9;
+  --color-base04: #594f47;
+  --color-base06: #190d06;
+  --color-base08: #f74c5a;
+  --color-base09: #7e8330;
+  --color-base0A: #7e8330;
+  --color-base0B: #b1cf6a;
+  --color-base0C: #2e8cc5;
+  --color-base0D: #0a5192;
+  --color-base0E: #fa74a7;
+  --color-base0F: #c48cbc;
+  --color-text-01: #190d06;
+  --color-text-02: #594f47;
+  --color-latency-0: #0a5192;
+  --color-latency-1: #3e9ad1;
+  --color-latency-2: #b4335e;
+  --color-latency-3: #7e8330;
+  --color-latency-4: #c67b8c;
+  --color-latency-5: #0b5092;
+  --font-sans-serif: system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+  --font-monospace: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+}
+
+body {
+  margin: 0;
+  background-color: #fbf7f3;
+  color: var(--color-text-01);
+  font-family: var(--font-sans-serif);
+}
+
+main {
+  max-width: 72em;
+  margin: 0 auto;
+  padding: 1em 2em 3em;
+}
+
+header p,
+.codeflare-report-none {
+  color: var(--color-text-02);
+}
+
+h2 {
+  border-bottom: 1px solid var(--color-base02);
+  padding-bottom: 0.25em;
+}
+
+dl {
+  display: grid;
+  grid-template-columns: max-content auto;
+  gap: 0.5em 2em;
+}
+
+dt {
+  font-weight: 600;
+}
+
+dd {
+  margin: 0;
+}
+
+pre {
+  overflow: auto;
+  max-height: 40em;
+  padding: 1em;
+  background-color: var(--color-base01);
+  font-family: var(--font-monospace);
+  font-size: 0.8125em;
+}
+
+.codeflare-chart-grid {
+  display: grid;
+  grid-gap: 0.6875em;
+  grid-template-columns: repeat(2, 1fr);
+}
+
+.codeflare-chart-container {
+  background-color: var(--color-base00);
+  filter: drop-shadow(1px 1px 2px var(--color-base02));
+}
+
+.codeflare-timeline {
+  grid-column: 1 / -1;
+}
+
+/* the chart toolbars are interactive, and there is no interactivity in a static report */
+.codeflare-chart-toolbar,
+.codeflare-chart-grid-toolbar {
+  display: none;
+}
+`
+
+export default stylesheet
@@ -0,0 +1,347 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { join } from "path"
+import { writeFile } from "fs/promises"
+import stripAnsi from "strip-ansi"
+import { Arguments, encodeComponent } from "@kui-shell/core"
+
+import { expand } from "../../lib/util"
+
+/** The subset of the Ray job definition, as captured in ray-job-definition.json, that we use */
+export type JobDefinition = {
+  status: string
+  entrypoint: string
+  message?: string
+  start_time: number
+  end_time: number | null
+  runtime_env: {
+    env_vars?: Record<string, string>
+    pip?: unknown
+  }
+}
+
+/** The subset of the job summary, as captured in job.json, that we use */
+export type Job = {
+  jobid: string
+  cmdline: {
+    appPart: string
+    systemPart: string
+  }
+  runtimeEnv: unknown
+  language: string
+  source: string
+}
+
+/** The guidebook choices of the run, as captured in choices.json */
+export type Choices = {
+  name?: string
+  choices?: Record<string, string>
+} & Record<string, unknown>
+
+/** What the user has to say about a run, as kept in notes.json */
+export type RunNotes = {
+  /** Free-form notes, e.g. what experiment this run was */
+  notes: string
+
+  /** Key/value tags, e.g. `model=roberta-base` */
+  tags: Record<string, string>
+
+  /** Has the user starred this run? */
+  starred: boolean
+}
+
+/** @return the key and value of the given `key=value` tag, or `undefined` if it is not of that form */
+export function parseTag(tag: string): [string, string] | undefined {
+  const match = tag.match(/^([^=\s]+)=(.*)$/)
+  return match ? [match[1], match[2].trim()] : undefined
+}
+
+/** The artifacts of a run directory, where each lives relative to the directory, and what each holds */
+export const artifacts = {
+  jobDefinition: { path: "ray-job-definition.json", description: "Ray job definition", required: true },
+  job: { path: "job.json", description: "job summary", required: false },
+  choices: { path: "choices.json", description: "guidebook choices", required: false },
+  source: { path: "source.py", description: "application source", required: false },
+  notes: { path: "notes.json", description: "run notes and tags", required: false },
+  logs: { path: "logs/job.txt", description: "job logs", required: true },
+  events: { path: "events/kubernetes.txt", description: "Kubernetes events", required: false },
+  gpu: { path: "resources/gpu.txt", description: "GPU utilization samples", required: false },
+  vmstat: { path: "resources/pod-vmstat.txt", description: "CPU utilization samples", required: false },
+  memory: { path: "resources/pod-memory.txt", description: "memory utilization samples", required: false },
+  podStats: { path: "resources/pod-stats.txt", description: "pod resource samples", required: false },
+  nodeStats: { path: "resources/node-stats.txt", description: "node capacity samples", required: false },
+}
+
+export type Artifact = keyof typeof artifacts
+
+/** The outcome of validating one artifact of a run directory */
+export type ArtifactStatus = {
+  artifact: Artifact
+  path: string
+  required: boolean
+  status: "ok" | "missing" | "empty" | "malformed"
+
+  /** Why the artifact is not "ok" */
+  message?: string
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string"
+}
+
+/** @return a complaint about the given parsed records, if there are none, or some have unparseable timestamps */
+function checkRecords(records: { timestamp: number }[]) {
+  if (records.length === 0) {
+    return "no samples found"
+  }
+
+  const nBad = records.filter((_) => isNaN(_.timestamp)).length
+  if (nBad > 0) {
+    return `${nBad} of ${records.length} samples have unparseable timestamps`
+  }
+}
+
+/** How to check the content of each artifact; each returns a complaint, or `undefined` if the content is well-formed */
+const validators: Record<Artifact, (content: string) => string | undefined | Promise<string | undefined>> = {
+  jobDefinition: (content) => {
+    const json = JSON.parse(content)
+    if (!isObject(json)) {
+      return "expected a JSON object"
+    } else if (typeof json.status !== "string") {
+      return "missing status"
+    } else if (typeof json.start_time !== "number") {
+      return "missing start_time"
+    } else if (!isObject(json.runtime_env)) {
+      return "missing runtime_env"
+    }
+  },
+  job: (content) => {
+    const json = JSON.parse(content)
+    if (!isObject(json)) {
+      return "expected a JSON object"
+    } else if (typeof json.jobid !== "string") {
+      return "missing jobid"
+    }
+  },
+  choices: (content) => (isObject(JSON.parse(content)) ? undefined : "expected a JSON object"),
+  source: () => undefined,
+  notes: (content) => {
+    const json = JSON.parse(content)
+    if (!isObject(json)) {
+      return "expected a JSON object"
+    } else if (json.notes !== undefined && typeof json.notes !== "string") {
+      return "notes must be a string"
+    } else if (json.tags !== undefined && !(isObject(json.tags) && Object.values(json.tags).every(isString))) {
+      return "tags must map keys to string values"
+    } else if (json.starred !== undefined && typeof json.starred !== "boolean") {
+      return "starred must be true or false"
+    }
+  },
+  logs: () => undefined,
+  events: (content) =>
+    /^\s*\S+\s+(Normal|Warning)\s/m.test(stripAnsi(content)) ? undefined : "no Kubernetes events found",
+  gpu: (content) => import("../charts/parsers/gpu").then((_) => checkRecords(_.parseContent(content))),
+  vmstat: (content) => import("../charts/parsers/vmstat").then((_) => checkRecords(_.parseContent(content))),
+  memory: (content) => import("../charts/parsers/memory").then((_) => checkRecords(_.parseContent(content))),
+  podStats: (content) => import("../charts/samples").then((_) => checkRecords(_.parseSamples(content))),
+  nodeStats: (content) => import("../charts/samples").then((_) => checkRecords(_.parseSamples(content))),
+}
+
+/**
+ * Typed access to the artifacts captured in one run directory, so
+ * that the rest of the code need not know how a run directory is laid
+ * out.
+ */
+export default class RunDirectory {
+  public constructor(private readonly path: string, private readonly REPL: Arguments["REPL"]) {}
+
+  /** @return the location of the given artifact */
+  public filepath(artifact: Artifact) {
+    return expand(join(this.path, artifacts[artifact].path))
+  }
+
+  /** @return the content of the given artifact; rejects with a description of the artifact if it is missing */
+  public async read(artifact: Artifact): Promise<string> {
+    try {
+      return await this.REPL.qexec<string>(`vfs fslice ${encodeComponent(this.filepath(artifact))} 0`)
+    } catch (err) {
+      throw new Error(`This run has no ${artifacts[artifact].description} (${artifacts[artifact].path})`)
+    }
+  }
+
+  /** @return the ansi-stripped content of the given artifact, or the empty string if it is missing */
+  public text(artifact: Artifact): Promise<string> {
+    return this.read(artifact)
+      .catch(() => "")
+      .then(stripAnsi)
+  }
+
+  /** @return the parsed content of the given JSON artifact, or `undefined` if it is missing or malformed */
+  private async json<T>(artifact: Artifact): Promise<T | undefined> {
+    try {
+      return JSON.parse(await this.read(artifact))
+    } catch (err) {
+      // `validate()` reports missing and malformed artifacts
+      return undefined
+    }
+  }
+
+  public jobDefinition() {
+    return this.json<JobDefinition>("jobDefinition")
+  }
+
+  public job() {
+    return this.json<Job>("job")
+  }
+
+  public choices() {
+    return this.json<Choices>("choices")
+  }
+
+  /** @return the source of the job's application, and the language it is written in */
+  public async source() {
+    const job = await this.job()
+    if (job) {
+      return { source: job.source, language: job.language }
+    }
+
+    // older runs captured the source alongside, rather than inside, job.json
+    const source = await this.text("source")
+    if (source) {
+      return { source, language: "python" }
+    }
+  }
+
+  /**
+   * @return the user's notes on this run; a run without notes has no
+   * tags and is not starred. We ignore any malformed fields, which
+   * `validate()` reports.
+   */
+  public async notes(): Promise<RunNotes> {
+    const json = await this.json<unknown>("notes")
+    const notes = isObject(json) ? json : {}
+    const tags = isObject(notes.tags) ? notes.tags : {}
+
+    return {
+      notes: isString(notes.notes) ? notes.notes : "",
+      tags: Object.entries(tags).reduce(
+        (M, [key, value]) => (isString(value) ? Object.assign(M, { [key]: value }) : M),
+        {} as RunNotes["tags"]
+      ),
+      starred: notes.starred === true,
+    }
+  }
+
+  /** Replace the user's notes on this run */
+  public saveNotes(notes: RunNotes) {
+    return writeFile(this.filepath("notes"), JSON.stringify(notes, undefined, 2))
+  }
+
+  /** @return when the job started, or `undefined` if we do not know */
+  public async startTime() {
+    const jobInfo = await this.jobDefinition()
+    return jobInfo && jobInfo.start_time ? jobInfo.start_time : undefined
+  }
+
+  public logs() {
+    return this.text("logs")
+  }
+
+  public events() {
+    return this.text("events")
+  }
+
+  public gpu() {
+    return Promise.all([this.read("gpu"), import("../charts/parsers/gpu")]).then(([content, _]) =>
+      _.parseContent(content)
+    )
+  }
+
+  public vmstat() {
+    return Promise.all([this.read("vmstat"), import("../charts/parsers/vmstat")]).then(([content, _]) =>
+      _.parseContent(content)
+    )
+  }
+
+  /** @param startTime anchor for the timestamps that the memory capture lacks */
+  public memory(startTime = 0) {
+    return Promise.all([this.read("memory"), import("../charts/parsers/memory"), this.samplingInterval()]).then(
+      ([content, _, intervalMillis]) => _.parseContent(content, startTime, intervalMillis)
+    )
+  }
+
+  /**
+   * @return the interval at which the resource captures sample, as
+   * evidenced by the timestamps of pod-stats.txt, or `undefined` if
+   * we cannot tell
+   */
+  private samplingInterval() {
+    return Promise.all([this.podSamples(), import("../charts/samples")])
+      .then(([samples, _]) => _.samplingInterval(samples))
+      .catch(() => undefined)
+  }
+
+  /** @return the samples of pod-stats.txt, including any in which there were no pods */
+  public podSamples() {
+    return Promise.all([this.read("podStats"), import("../charts/samples")]).then(([content, _]) =>
+      _.parseSamples(content)
+    )
+  }
+
+  public podStats() {
+    return Promise.all([this.podSamples(), import("../charts/parsers/pods")]).then(([samples, _]) => _.toLogs(samples))
+  }
+
+  public nodeStats() {
+    return Promise.all([this.read("nodeStats"), import("../charts/parsers/capacity")]).then(([content, _]) =>
+      _.parseContent(content)
+    )
+  }
+
+  /** @return the status of the given artifact: whether it is present and well-formed */
+  private async check(artifact: Artifact): Promise<ArtifactStatus> {
+    const { path, required } = artifacts[artifact]
+    const status = { artifact, path, required }
+
+    let content: string
+    try {
+      content = await this.read(artifact)
+    } catch (err) {
+      return Object.assign(status, { status: "missing" as const })
+    }
+
+    if (content.trim().length === 0) {
+      return Object.assign(status, { status: "empty" as const })
+    }
+
+    try {
+      const message = await validators[artifact](content)
+      return Object.assign(status, message ? { status: "malformed" as const, message } : { status: "ok" as const })
+    } catch (err) {
+      return Object.assign(status, { status: "malformed" as const, message: (err as Error).message })
+    }
+  }
+
+  /** @return the status of every artifact of this run directory */
+  public validate(): Promise<ArtifactStatus[]> {
+    return Promise.all((Object.keys(artifacts) as Artifact[]).map((_) => this.check(_)))
+  }
+}
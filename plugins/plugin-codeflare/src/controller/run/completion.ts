@@ -0,0 +1,114 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import RunDirectory, { JobDefinition } from "./RunDirectory"
+
+/** Ray job statuses from which a job will make no further progress */
+const terminalStatuses = ["SUCCEEDED", "FAILED", "STOPPED", "ERROR"]
+
+/** Poll the job definition of a followed run this often */
+const pollIntervalMs = 5000
+
+/**
+ * Once a run completes, wait this long before notifying its followers,
+ * so that their tails (which poll every 500ms) pick up the final lines
+ * of the logs.
+ */
+const drainMs = 1500
+
+/** @return whether the given job has reached a terminal status */
+export function isComplete(jobInfo?: JobDefinition): jobInfo is JobDefinition {
+  return !!jobInfo && typeof jobInfo.status === "string" && terminalStatuses.includes(jobInfo.status.toUpperCase())
+}
+
+type Listener = (jobInfo: JobDefinition) => void
+
+/** The followers of one run, and the poller that watches for its completion */
+type Watcher = {
+  listeners: Set<Listener>
+  timer: ReturnType<typeof setInterval>
+}
+
+/** Keyed by the path to the job definition of each run; a watcher is removed once its run completes */
+const watchers: Record<string, Watcher> = {}
+
+async function poll(key: string, run: RunDirectory, watcher: Watcher) {
+  const jobInfo = await run.jobDefinition()
+  if (watchers[key] === watcher && isComplete(jobInfo)) {
+    clearInterval(watcher.timer)
+    delete watchers[key]
+
+    // notify only those followers that are still subscribed once the tails have drained
+    setTimeout(() => watcher.listeners.forEach((listener) => listener(jobInfo)), drainMs)
+  }
+}
+
+/**
+ * Invoke the given `listener` once the given run reaches a terminal
+ * status, as recorded in its ray-job-definition.json. All followers
+ * of a run share one poller.
+ *
+ * @return a function that unsubscribes the `listener`
+ */
+export function onCompletion(run: RunDirectory, listener: Listener): () => void {
+  const key = run.filepath("jobDefinition")
+
+  let watcher = watchers[key]
+  if (!watcher) {
+    const newWatcher: Watcher = {
+      listeners: new Set(),
+      timer: setInterval(() => poll(key, run, newWatcher), pollIntervalMs),
+    }
+    watcher = watchers[key] = newWatcher
+    poll(key, run, watcher)
+  }
+
+  watcher.listeners.add(listener)
+
+  return () => {
+    watcher.listeners.delete(listener)
+    if (watcher.listeners.size === 0) {
+      clearInterval(watcher.timer)
+      if (watchers[key] === watcher) {
+        delete watchers[key]
+      }
+    }
+  }
+}
+
+/**
+ * Stop following the given run once it completes, or when the
+ * returned function is called, whichever comes first.
+ *
+ * @param stop stops the tails of the follower
+ * @return an `unwatch` for the follower
+ */
+export function stopOnCompletion(run: RunDirectory, stop: () => void): () => void {
+  let stopped = false
+  const stopOnce = () => {
+    if (!stopped) {
+      stopped = true
+      stop()
+    }
+  }
+
+  const unsubscribe = onCompletion(run, stopOnce)
+
+  return () => {
+    unsubscribe()
+    stopOnce()
+  }
+}
@@ -18,13 +18,15 @@ import { readdir } from "fs"
 import { Profiles } from "madwizard"
 import { basename, join } from "path"
 import prettyMilliseconds from "pretty-ms"
-import { Arguments, Table } from "@kui-shell/core"
+import { Arguments, ParsedOptions, Table } from "@kui-shell/core"
 import { setTabReadonly } from "@kui-shell/plugin-madwizard"
 
 import { productName } from "@kui-shell/client/config.d/name.json"
 
 import { width, height } from "../dashboard"
 import { getJobDefinition } from "../description"
+import { filterByNotes, notesSummary } from "./tags"
+import RunDirectory, { JobDefinition, RunNotes } from "./RunDirectory"
 
 async function openDashboard(this: Arguments["REPL"], /*evt: React.MouseEvent<HTMLDivElement>*/ runDir: string) {
   // const runDir = evt.currentTarget.getAttribute("data-run-dir")
@@ -66,23 +68,36 @@ function statusColor(status: Status) {
   }
 }
 
-function formatDate(date: number): string {
+function formatDate(date: number | null): string {
   if (!date) {
     return "Running..."
   }
   return new Date(date).toLocaleString()
 }
 
-function getRunTime(start: number, end: number): string {
+function getRunTime(start: number, end: number | null): string {
   const endTime = end || Date.now()
   return prettyMilliseconds(endTime - start, { secondsDecimalDigits: 0 })
 }
 
-export default async function getRuns(args: Arguments) {
+export interface GetRunOptions extends ParsedOptions {
+  /** Show the runs of this profile, rather than the default profile */
+  p?: string
+  profile?: string
+
+  /** Show only runs with these `key=value` tags */
+  tag?: string | string[]
+
+  /** Show only starred runs */
+  starred?: boolean
+}
+
+export default async function getRuns(args: Arguments<GetRunOptions>) {
   setTabReadonly(args)
   const profile = args.parsedOptions.p || args.parsedOptions.profile
 
   const onClick = openDashboard.bind(args.REPL)
+  const filter = filterByNotes(args.parsedOptions)
 
   return new Promise<Table>((resolve, reject) => {
     const runsDir = Profiles.guidebookJobDataPath({ profile: profile ? profile.toString() : undefined })
@@ -95,13 +110,19 @@ export default async function getRuns(args: Arguments) {
         }
       } else {
         const runDirs = runs.map((_) => join(runsDir, _))
-        const details = (await Promise.all(runDirs.map((_) => getJobDefinition(_, args.REPL))))
+        const [infos, notes] = await Promise.all([
+          Promise.all(runDirs.map((_) => getJobDefinition(_, args.REPL))),
+          Promise.all(runDirs.map((_) => new RunDirectory(_, args.REPL).notes())),
+        ])
+        const details = infos
           .map((info, idx) => ({
             jobId: runs[idx],
             runDir: runDirs[idx],
             info,
+            notes: notes[idx],
           }))
-          .filter((_) => !!_.info)
+          .filter((_): _ is { jobId: string; runDir: string; info: JobDefinition; notes: RunNotes } => !!_.info)
+          .filter(filter)
 
         const table: Table = {
           defaultPresentation: "grid",
@@ -109,10 +130,23 @@ export default async function getRuns(args: Arguments) {
             name: _.jobId,
             onclick: () => onClick(_.runDir),
             attributes: [
-              { key: "STATUS", value: capitalize(_.info.status), tag: "badge", css: statusColor(_.info.status) },
+              {
+                key: "STATUS",
+                value: capitalize(_.info.status),
+                tag: "badge",
+                css: statusColor(_.info.status as Status),
+              },
               { key: "STARTED AT", value: formatDate(_.info.start_time) },
               { key: "FINISHED AT", value: formatDate(_.info.end_time) },
               { key: "RUN TIME", value: getRunTime(_.info.start_time, _.info.end_time) },
+              { key: "STARRED", value: _.notes.starred ? "★" : "" },
+              {
+                key: "TAGS",
+                value: Object.entries(_.notes.tags)
+                  .map(([key, value]) => `${key}=${value}`)
+                  .join(", "),
+              },
+              { key: "NOTES", value: notesSummary(_.notes.notes) },
             ],
           })),
         }
@@ -0,0 +1,46 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { basename } from "path"
+import { Arguments, Capabilities } from "@kui-shell/core"
+
+import RunDirectory from "./RunDirectory"
+import { isArchive } from "../archive"
+import RunNotes from "../../components/RunNotes"
+import { unquote } from "../../lib/util"
+
+/** View, and edit, the notes, tags, and starred flag of the run in the given log directory */
+export default async function notes(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare notes <logdir>")
+  }
+
+  const run = new RunDirectory(filepath, args.REPL)
+  const notes = await run.notes()
+
+  if (Capabilities.isHeadless()) {
+    return JSON.stringify(notes, undefined, 2)
+  }
+
+  // archived runs are read-only
+  const onSave = isArchive(filepath) ? undefined : run.saveNotes.bind(run)
+
+  return {
+    react: <RunNotes runId={basename(filepath.replace(/\/$/, ""))} notes={notes} onSave={onSave} />,
+  }
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from "react"
+import { Arguments } from "@kui-shell/core"
+
+import RunDirectory from "./RunDirectory"
+import RunStatus from "../../components/RunStatus"
+import { isComplete, onCompletion } from "./completion"
+import { unquote } from "../../lib/util"
+
+/**
+ * A banner that announces the final status of the run in the given
+ * log directory. If the run is still going, and we are following it,
+ * the banner appears once the run completes.
+ */
+export default async function status(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare status <logdir>")
+  }
+
+  const run = new RunDirectory(filepath, args.REPL)
+  const jobInfo = await run.jobDefinition()
+
+  return {
+    react: (
+      <RunStatus
+        final={isComplete(jobInfo) ? jobInfo : undefined}
+        onCompletion={process.env.FOLLOW ? (listener) => onCompletion(run, listener) : undefined}
+      />
+    ),
+  }
+}
@@ -0,0 +1,40 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RunNotes, parseTag } from "./RunDirectory"
+
+/**
+ * @return a filter that accepts the runs whose notes carry all of the
+ * given `key=value` tags and, if `starred`, are starred
+ */
+export function filterByNotes({ tag, starred }: { tag?: string | string[]; starred?: boolean }) {
+  const tags = (tag === undefined ? [] : Array.isArray(tag) ? tag : [tag]).map((_) => {
+    const kv = parseTag(_)
+    if (!kv) {
+      throw new Error(`Usage: codeflare get run [--tag key=value] [--starred]; tag "${_}" is not of the form key=value`)
+    }
+    return kv
+  })
+
+  return ({ notes }: { notes: RunNotes }) =>
+    (!starred || notes.starred) && tags.every(([key, value]) => notes.tags[key] === value)
+}
+
+/** @return the first line of the given notes, truncated for display in a table cell */
+export function notesSummary(notes: string) {
+  const line = notes.trim().split(/\n/)[0]
+  return line.length > 40 ? line.slice(0, 39) + "…" : line
+}
@@ -0,0 +1,70 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Arguments, Capabilities, Table } from "@kui-shell/core"
+
+import RunDirectory, { ArtifactStatus } from "./RunDirectory"
+import { unquote } from "../../lib/util"
+
+/** Badge colors for each artifact status */
+function statusColor({ status, required }: ArtifactStatus) {
+  switch (status) {
+    case "ok":
+      return "green-background"
+    case "malformed":
+      return "red-background"
+    default:
+      return required ? "red-background" : "yellow-background"
+  }
+}
+
+/** @return a Kui `Table` with one row per artifact of the run directory */
+function toTable(statuses: ArtifactStatus[]): Table {
+  return {
+    header: {
+      name: "ARTIFACT",
+      attributes: [
+        { key: "STATUS", value: "STATUS" },
+        { key: "REQUIRED", value: "REQUIRED" },
+        { key: "MESSAGE", value: "MESSAGE" },
+      ],
+    },
+    body: statuses.map((_) => ({
+      name: _.path,
+      attributes: [
+        { key: "STATUS", value: _.status, tag: "badge", css: statusColor(_) },
+        { key: "REQUIRED", value: _.required ? "yes" : "no" },
+        { key: "MESSAGE", value: _.message || "" },
+      ],
+    })),
+  }
+}
+
+/** @return a report of which artifacts of the given run directory are missing or malformed */
+export default async function validateRun(args: Arguments) {
+  const filepath = unquote(args.argvNoOptions[3])
+  if (!filepath) {
+    throw new Error("Usage: codeflare validate run <logdir>")
+  }
+
+  const statuses = await new RunDirectory(filepath, args.REPL).validate()
+
+  if (Capabilities.isHeadless()) {
+    return JSON.stringify(statuses, undefined, 2)
+  } else {
+    return toTable(statuses)
+  }
+}
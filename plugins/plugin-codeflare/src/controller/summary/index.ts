@@ -0,0 +1,35 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CommandOptions, Registrar } from "@kui-shell/core"
+
+import { mountArchives } from "../archive"
+
+const flags: CommandOptions["flags"] = {
+  boolean: ["compact"],
+}
+
+/** Command registration for run summary statistics */
+export default function registerSummaryCommands(registrar: Registrar) {
+  registrar.listen(
+    "/codeflare/summarize",
+    (args) =>
+      mountArchives(args)
+        .then(() => import("./summarize"))
+        .then((_) => _.default(args)),
+    { flags }
+  )
+}
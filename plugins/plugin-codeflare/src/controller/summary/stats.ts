@@ -0,0 +1,178 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toHostMap } from "../charts/LogRecord"
+import { Log as GpuLog, deviceOf } from "../charts/parsers/gpu"
+import { Log as CpuLog } from "../charts/parsers/vmstat"
+
+/** GPU utilization at or below this percentage counts as idle */
+export const idleGpuThreshold = 5
+
+/** Summary statistics of the GPU samples of one host, or of the whole cluster */
+export type GpuStats = {
+  /** Number of GPU samples */
+  nSamples: number
+
+  /** Mean GPU utilization, in percent */
+  meanUtilization: number
+
+  /** Median GPU utilization, in percent */
+  p50Utilization: number
+
+  /** 95th percentile GPU utilization, in percent */
+  p95Utilization: number
+
+  /** Peak GPU memory utilization, in percent */
+  peakMemoryUtilization: number
+
+  /** Peak GPU memory in use, in bytes, if the capture includes the `Memory.Used` metric */
+  peakMemoryUsedBytes?: number
+
+  /** Maximum GPU temperature, in Celsius */
+  maxTemperature: number
+
+  /** Total time that GPUs spent at or below `idleGpuThreshold` utilization, summed over GPUs, in minutes */
+  idleMinutes: number
+}
+
+/** Summary statistics of the CPU samples of one host, or of the whole cluster */
+export type CpuStats = {
+  /** Number of vmstat samples */
+  nSamples: number
+
+  /** Mean share of CPU time spent waiting on I/O, in percent */
+  meanIowait: number
+}
+
+export type HostStats = {
+  /** Name of the host, or `cluster` for cluster-wide stats */
+  host: string
+
+  gpu?: GpuStats
+  cpu?: CpuStats
+}
+
+/** Per-host and cluster-wide summary statistics of a run */
+export type RunStats = {
+  cluster: HostStats
+  hosts: HostStats[]
+}
+
+/**
+ * Unlike `Math.max(...values)`, this does not exceed the maximum call
+ * stack size for long captures.
+ *
+ * @return the largest of the given `values`, or `initial` if there are none
+ */
+function max(values: number[], initial = 0) {
+  return values.reduce((max, _) => (_ > max ? _ : max), initial)
+}
+
+function mean(values: number[]) {
+  return values.length === 0 ? 0 : values.reduce((sum, _) => sum + _, 0) / values.length
+}
+
+/** @return the nearest-rank `p`th percentile of the given `sorted` values */
+function percentile(sorted: number[], p: number) {
+  return sorted.length === 0 ? 0 : sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function median(values: number[]) {
+  const sorted = values.slice().sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] || 0
+}
+
+/**
+ * We attribute to each sample the time until the next sample of the
+ * same GPU, but no more than twice the typical sampling interval, so
+ * that gaps in the capture do not count as idle time.
+ *
+ * @return total idle time, in milliseconds, of the given samples of one GPU
+ */
+function idleMillis(samples: GpuLog[]) {
+  const intervals = samples.slice(1).map((_, idx) => _.timestamp - samples[idx].timestamp)
+  const maxInterval = 2 * median(intervals)
+
+  return intervals.reduce(
+    (sum, interval, idx) =>
+      sum + (samples[idx].utilizationGPU <= idleGpuThreshold ? Math.min(interval, maxInterval) : 0),
+    0
+  )
+}
+
+function gpuStats(logs: GpuLog[]): GpuStats | undefined {
+  if (logs.length === 0) {
+    return undefined
+  }
+
+  const utilization = logs.map((_) => _.utilizationGPU).filter((_) => !isNaN(_))
+  const sorted = utilization.slice().sort((a, b) => a - b)
+  const memoryUsed = logs.map((_) => _.metrics["Memory.Used"]).filter((_) => _ !== undefined)
+
+  // group samples by GPU, to measure the time between samples of each GPU
+  const devices = Object.values(
+    logs.reduce((M, log) => {
+      const key = `${log.hostname} ${deviceOf(log)}`
+      if (!M[key]) {
+        M[key] = []
+      }
+      M[key].push(log)
+      return M
+    }, {} as Record<string, GpuLog[]>)
+  )
+
+  return {
+    nSamples: logs.length,
+    meanUtilization: mean(utilization),
+    p50Utilization: percentile(sorted, 50),
+    p95Utilization: percentile(sorted, 95),
+    peakMemoryUtilization: max(logs.map((_) => _.utilizationMemory).filter((_) => !isNaN(_))),
+    peakMemoryUsedBytes: memoryUsed.length === 0 ? undefined : max(memoryUsed) * 1024 * 1024, // MiB
+    maxTemperature: max(logs.map((_) => _.temperatureGPU).filter((_) => !isNaN(_))),
+    idleMinutes: devices.reduce((sum, samples) => sum + idleMillis(samples), 0) / 1000 / 60,
+  }
+}
+
+function cpuStats(logs: CpuLog[]): CpuStats | undefined {
+  if (logs.length === 0) {
+    return undefined
+  }
+
+  return {
+    nSamples: logs.length,
+    meanIowait: mean(logs.map((_) => _.iowait).filter((_) => !isNaN(_))),
+  }
+}
+
+/** @return per-host and cluster-wide summary statistics for the given GPU and CPU samples */
+export default function stats(gpuLogs: GpuLog[], cpuLogs: CpuLog[]): RunStats {
+  const gpuMap = toHostMap(gpuLogs)
+  const cpuMap = toHostMap(cpuLogs)
+  const hosts = Array.from(new Set([...Object.keys(gpuMap), ...Object.keys(cpuMap)])).sort()
+
+  return {
+    cluster: {
+      host: "cluster",
+      gpu: gpuStats(gpuLogs),
+      cpu: cpuStats(cpuLogs),
+    },
+    hosts: hosts.map((host) => ({
+      host,
+      gpu: gpuStats(gpuMap[host] || []),
+      cpu: cpuStats(cpuMap[host] || []),
+    })),
+  }
+}
@@ -0,0 +1,153 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import prettyBytes from "pretty-bytes"
+import { Arguments, Capabilities, Cell, ParsedOptions, Table } from "@kui-shell/core"
+
+import RunDirectory from "../run/RunDirectory"
+import stats, { HostStats, RunStats } from "./stats"
+import { Straggler, describeStragglers } from "../events/stragglers"
+import { unquote } from "../../lib/util"
+
+export interface SummarizeOptions extends ParsedOptions {
+  /** Show only the cluster-wide stats, as a description list */
+  compact?: boolean
+
+  /** Flag workers whose progress rate lags the median by more than this fraction, e.g. 0.2 */
+  "straggler-margin"?: number
+}
+
+/** Utilization stats of a run, along with the workers whose training progress lags the rest */
+export type RunSummary = RunStats & {
+  stragglers: Straggler[]
+}
+
+/** Placeholder for stats we could not compute, e.g. a host with no GPU samples */
+const na = "-"
+
+function percent(value: number) {
+  return value.toFixed(0) + "%"
+}
+
+/** The columns of the summary table, and how to format each from a `HostStats` */
+const columns: { key: string; label: string; value: (_: HostStats) => string }[] = [
+  { key: "GPU MEAN", label: "Mean GPU Utilization", value: ({ gpu }) => (gpu ? percent(gpu.meanUtilization) : na) },
+  { key: "GPU P50", label: "Median GPU Utilization", value: ({ gpu }) => (gpu ? percent(gpu.p50Utilization) : na) },
+  { key: "GPU P95", label: "p95 GPU Utilization", value: ({ gpu }) => (gpu ? percent(gpu.p95Utilization) : na) },
+  {
+    key: "PEAK GPU MEMORY",
+    label: "Peak GPU Memory",
+    value: ({ gpu }) =>
+      !gpu
+        ? na
+        : gpu.peakMemoryUsedBytes !== undefined
+        ? prettyBytes(gpu.peakMemoryUsedBytes, { binary: true })
+        : percent(gpu.peakMemoryUtilization),
+  },
+  { key: "MAX TEMP", label: "Max GPU Temperature", value: ({ gpu }) => (gpu ? gpu.maxTemperature + "C" : na) },
+  { key: "IOWAIT", label: "CPU I/O Wait", value: ({ cpu }) => (cpu ? percent(cpu.meanIowait) : na) },
+  { key: "IDLE GPU MIN", label: "Idle GPU Minutes", value: ({ gpu }) => (gpu ? gpu.idleMinutes.toFixed(1) : na) },
+]
+
+/**
+ * Stragglers are identified by the ip of the worker, which is not how
+ * we name hosts, so we show them only in the cluster row.
+ *
+ * @return the STRAGGLERS cell for the given row of the summary table
+ */
+function stragglersCell(summary: RunSummary, hostStats: HostStats): Cell {
+  const key = "STRAGGLERS"
+  if (hostStats !== summary.cluster) {
+    return { key, value: na }
+  } else if (summary.stragglers.length === 0) {
+    return { key, value: "none" }
+  } else {
+    return { key, value: summary.stragglers.map((_) => _.ip).join(", "), tag: "badge", css: "yellow-background" }
+  }
+}
+
+/** @return a Kui `Table` with one row for the cluster, followed by one row per host */
+function toTable(summary: RunSummary): Table {
+  return {
+    header: {
+      name: "HOST",
+      attributes: [...columns.map(({ key }) => ({ key, value: key })), { key: "STRAGGLERS", value: "STRAGGLERS" }],
+    },
+    body: [summary.cluster, ...summary.hosts].map((hostStats) => ({
+      name: hostStats.host,
+      attributes: [
+        ...columns.map(({ key, value }) => ({ key, value: value(hostStats) })),
+        stragglersCell(summary, hostStats),
+      ],
+    })),
+  }
+}
+
+/** @return a `Description` of the cluster-wide stats */
+async function toDescription(summary: RunSummary) {
+  const summaryData = [
+    ...columns.map(({ label, value }) => ({ label, value: value(summary.cluster) })),
+    { label: "Stragglers", value: summary.stragglers.length === 0 ? "none" : describeStragglers(summary.stragglers) },
+  ]
+
+  const React = await import("react")
+  const Description = await import("../../components/Description")
+
+  return {
+    react: React.createElement(Description.default, { summaryData }),
+  }
+}
+
+/** @return the workers of the given run whose training progress lags the rest */
+async function findStragglers(run: RunDirectory, margin?: number) {
+  const [jobLogs, torch, stragglers] = await Promise.all([
+    run.logs(),
+    import("../events/torch"),
+    import("../events/stragglers"),
+  ])
+
+  return stragglers.default(torch.default(jobLogs), margin)
+}
+
+/** @return per-host and cluster-wide utilization stats, and any stragglers, for the run in the given log directory */
+export async function summarize(filepath: string, REPL: Arguments["REPL"], margin?: number): Promise<RunSummary> {
+  const run = new RunDirectory(filepath, REPL)
+
+  const [gpuLogs, cpuLogs, stragglers] = await Promise.all([
+    run.gpu().catch(() => []),
+    run.vmstat().catch(() => []),
+    findStragglers(run, margin),
+  ])
+
+  return Object.assign(stats(gpuLogs, cpuLogs), { stragglers })
+}
+
+export default async function summarizeCmd(args: Arguments<SummarizeOptions>) {
+  const filepath = unquote(args.argvNoOptions[2])
+  if (!filepath) {
+    throw new Error("Usage: codeflare summarize <logdir> [--compact] [--straggler-margin 0.2]")
+  }
+
+  const summary = await summarize(filepath, args.REPL, args.parsedOptions["straggler-margin"])
+
+  if (Capabilities.isHeadless()) {
+    return JSON.stringify(summary, undefined, 2)
+  } else if (args.parsedOptions.compact) {
+    return toDescription(summary)
+  } else {
+    return toTable(summary)
+  }
+}
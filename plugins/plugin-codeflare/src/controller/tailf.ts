@@ -16,23 +16,41 @@
 
 import { Arguments, Registrar, encodeComponent } from "@kui-shell/core"
 
-import { expand } from "../lib/util"
+import { expand, unquote } from "../lib/util"
+import { isArchive, mountArchives } from "./archive"
 import { followFlags, FollowOptions } from "./dashboard"
 
-async function tail(args: Arguments<FollowOptions>) {
-  const filepath = args.argvNoOptions[2]
+type TailOptions = FollowOptions & {
+  /** Scroll to this line of the file */
+  line?: number
+}
+
+async function tail(args: Arguments<TailOptions>) {
+  const filepath = unquote(args.argvNoOptions[2])
   if (!filepath) {
-    throw new Error("Usage: codeflare tail <filepath>")
+    throw new Error("Usage: codeflare tail <filepath> [--line N]")
   }
 
   const fp = expand(filepath)
   const [React, Terminal] = await Promise.all([
     import("react"),
     import("../components/Terminal").then((_) => _.default),
+    mountArchives(args),
   ])
 
-  if (process.env.FOLLOW) {
-    const TailFile = await import("@logdna/tail-file").then((_) => _.default)
+  // to jump to a line, we need the content up front, so we show a
+  // snapshot rather than following; ditto for archived runs, which
+  // are no longer growing
+  if (process.env.FOLLOW && !args.parsedOptions.line && !isArchive(fp)) {
+    const [TailFile, { default: RunDirectory }, { stopOnCompletion }] = await Promise.all([
+      import("@logdna/tail-file").then((_) => _.default),
+      import("./run/RunDirectory"),
+      import("./run/completion"),
+    ])
+
+    // when tailing a file of the dashboard's run, stop once that run completes
+    const logdir = process.env.LOGDIR ? expand(process.env.LOGDIR) : undefined
+    const run = logdir && fp.startsWith(logdir) ? new RunDirectory(logdir, args.REPL) : undefined
 
     return {
       react: React.createElement(Terminal, {
@@ -41,9 +59,10 @@ async function tail(args: Arguments<FollowOptions>) {
           tail.start()
           tail.on("tail_error", (err) => console.error(err))
 
+          const quit = () => tail.quit()
           return {
             on: tail.on.bind(tail),
-            unwatch: tail.quit.bind(tail),
+            unwatch: run ? stopOnCompletion(run, quit) : quit,
           }
         },
       }),
@@ -52,7 +71,7 @@ async function tail(args: Arguments<FollowOptions>) {
     const initialContent = await args.REPL.qexec<string>(`vfs fslice ${encodeComponent(fp)} 0`)
 
     return {
-      react: React.createElement(Terminal, { initialContent }),
+      react: React.createElement(Terminal, { initialContent, jumpToLine: args.parsedOptions.line }),
     }
   }
 }
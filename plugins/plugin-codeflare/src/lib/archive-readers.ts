@@ -0,0 +1,224 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createReadStream } from "fs"
+import { pipeline } from "stream"
+import { readFile, stat } from "fs/promises"
+import { createGunzip, inflateRawSync } from "zlib"
+
+/** The members of an archive, keyed by their path within the archive */
+export type Members = Map<string, Buffer>
+
+/** @return the null-terminated string at the given range of a tar header */
+function tarString(header: Buffer, start: number, length: number) {
+  const field = header.subarray(start, start + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end < 0 ? field.length : end).toString("utf-8")
+}
+
+/** @return the `path` record of a pax extended header, if any */
+function paxPath(data: Buffer) {
+  const match = data.toString("utf-8").match(/^\d+ path=(.*)$/m)
+  return match ? match[1] : undefined
+}
+
+/**
+ * @return the regular-file members of the given (uncompressed) tar
+ * stream. We parse the stream as it arrives, copying out each member,
+ * so that we never hold the whole tar in memory.
+ */
+async function untar(tar: AsyncIterable<Buffer>): Promise<Members> {
+  const members: Members = new Map()
+
+  // GNU long names and pax headers name the *next* member
+  let nextName: string | undefined
+
+  // the header of the member whose data we are waiting for, and the bytes we need before we can make progress
+  let header: Buffer | undefined
+  let needed = 512
+
+  let pending: Buffer[] = []
+  let nPending = 0
+
+  for await (const chunk of tar) {
+    pending.push(chunk)
+    nPending += chunk.length
+    if (nPending < needed) {
+      continue
+    }
+
+    const buffer = Buffer.concat(pending, nPending)
+    let offset = 0
+
+    while (buffer.length - offset >= needed) {
+      if (!header) {
+        header = buffer.subarray(offset, offset + 512)
+        if (!tarString(header, 0, 100)) {
+          // two empty blocks mark the end of the archive
+          return members
+        }
+
+        offset += 512
+        needed = Math.ceil(parseInt(tarString(header, 124, 12).trim() || "0", 8) / 512) * 512
+      } else {
+        const name = tarString(header, 0, 100)
+        const size = parseInt(tarString(header, 124, 12).trim() || "0", 8)
+        const type = String.fromCharCode(header[156] || 48) // '0'
+        const prefix = header.subarray(257, 263).toString() === "ustar\0" ? tarString(header, 345, 155) : ""
+        const data = buffer.subarray(offset, offset + size)
+
+        if (type === "L") {
+          nextName = tarString(data, 0, data.length)
+        } else if (type === "x") {
+          nextName = paxPath(data)
+        } else if (type === "0" || type === "7") {
+          members.set(nextName || (prefix ? `${prefix}/${name}` : name), Buffer.from(data))
+          nextName = undefined
+        } else {
+          nextName = undefined
+        }
+
+        offset += needed
+        header = undefined
+        needed = 512
+      }
+    }
+
+    pending = [buffer.subarray(offset)]
+    nPending = buffer.length - offset
+  }
+
+  return members
+}
+
+/** @return the file members of the given zip, whose members must be stored or deflated */
+function unzip(zip: Buffer): Members {
+  const members: Members = new Map()
+
+  // the end of central directory record is at the end, followed by an optional comment of up to 64k
+  let eocd = -1
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - 22 - 0xffff); offset--) {
+    if (zip.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip archive")
+  }
+
+  const nEntries = zip.readUInt16LE(eocd + 10)
+  let offset = zip.readUInt32LE(eocd + 16)
+
+  for (let idx = 0; idx < nEntries && zip.readUInt32LE(offset) === 0x02014b50; idx++) {
+    const method = zip.readUInt16LE(offset + 10)
+    const compressedSize = zip.readUInt32LE(offset + 20)
+    const nameLength = zip.readUInt16LE(offset + 28)
+    const extraLength = zip.readUInt16LE(offset + 30)
+    const commentLength = zip.readUInt16LE(offset + 32)
+    const localOffset = zip.readUInt32LE(offset + 42)
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8")
+
+    if (!name.endsWith("/")) {
+      // the local header has its own name and extra field lengths
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+      const data = zip.subarray(dataStart, dataStart + compressedSize)
+      if (method === 0) {
+        members.set(name, Buffer.from(data))
+      } else if (method === 8) {
+        members.set(name, inflateRawSync(data))
+      } else {
+        throw new Error(`Unsupported compression method ${method} of zip member ${name}; expected stored or deflated`)
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return members
+}
+
+/**
+ * Run directories are often archived along with their enclosing
+ * directory, e.g. `run-1234/logs/job.txt`; we strip such a common
+ * leading directory, so that members are named relative to the run
+ * directory.
+ */
+function stripCommonRoot(members: Members): Members {
+  const names = Array.from(members.keys()).map((_) => _.replace(/^\.\//, ""))
+  const root = names.length > 0 ? names[0].split(/\//)[0] + "/" : ""
+  const strip = root.length > 1 && names.every((_) => _.startsWith(root))
+
+  return new Map(
+    Array.from(members.entries()).map(([name, data]) => {
+      const normalized = name.replace(/^\.\//, "")
+      return [strip ? normalized.slice(root.length) : normalized, data]
+    })
+  )
+}
+
+/**
+ * @return the uncompressed content of the given .tar.gz; errors
+ * reading the file surface as errors of the returned stream, and we
+ * close the file if the reader stops early
+ */
+function gunzip(archive: string) {
+  return pipeline(createReadStream(archive), createGunzip(), () => undefined)
+}
+
+/** We keep the members of only this many of the most recently read archives */
+const maxCached = 2
+
+/** The members of the most recently read archives, least recently read first */
+const cache = new Map<string, { mtimeMs: number; size: number; members: Promise<Members> }>()
+
+/**
+ * @return the members of the given .tar.gz, .tgz, or .zip archive; we
+ * read each archive once, unless it has since changed, e.g. if it was
+ * still being downloaded
+ */
+export async function readArchive(archive: string): Promise<Members> {
+  const { mtimeMs, size } = await stat(archive)
+
+  const cached = cache.get(archive)
+  cache.delete(archive)
+  if (cached && cached.mtimeMs === mtimeMs && cached.size === size) {
+    cache.set(archive, cached)
+    return cached.members
+  }
+
+  const members = (/\.zip$/.test(archive) ? readFile(archive).then(unzip) : untar(gunzip(archive))).then(
+    stripCommonRoot
+  )
+
+  const entry = { mtimeMs, size, members }
+  cache.set(archive, entry)
+  for (const [other] of cache) {
+    if (cache.size <= maxCached) {
+      break
+    }
+    cache.delete(other)
+  }
+
+  // don't cache failures, e.g. if the archive is truncated
+  members.catch(() => {
+    if (cache.get(archive) === entry) {
+      cache.delete(archive)
+    }
+  })
+
+  return members
+}
@@ -18,3 +18,8 @@
 export function expand(expr: string): string {
   return expr.replace(/\${?([^}/\s]+)}?/g, (_, p1) => process.env[p1] || p1)
 }
+
+/** Strip the quotes, if any, around a command line argument */
+export function unquote(arg: string): string {
+  return arg ? arg.replace(/^(['"])(.*)\1$/, "$2") : arg
+}
@@ -29,8 +29,8 @@ import UpdateFunction from "../../../update"
 function openRunInCodeflareDashboard(createWindow: CreateWindowFunction, profile: string, runId: string) {
   const runsDir = Profiles.guidebookJobDataPath({ profile })
   createWindow(
-    // TODO -f: follow by default. should we be smarter, and detect
-    // which -runs are in a non-RUNNING state, and don't follow those?
+    // -f: follow by default; the dashboard skips following runs that
+    // have already completed
     ["codeflare", "dashboard", "-f", join(runsDir, runId)],
     windowOptions({ title: "CodeFlare Dashboard - " + runId })
   )
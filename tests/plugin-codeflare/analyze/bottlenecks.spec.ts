@@ -0,0 +1,154 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { run } from "../inputs"
+import torchEvents, { TorchEvent } from "../../../plugins/plugin-codeflare/src/controller/events/torch"
+import { Log as GpuLog } from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/gpu"
+import { Log as CpuLog } from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/vmstat"
+import analyze, { phases } from "../../../plugins/plugin-codeflare/src/controller/analyze/bottlenecks"
+
+/** @return a completed torch event of the given worker */
+function event(ip: string, type: TorchEvent["type"], timestamp: number, endTimestamp: number, step = 0): TorchEvent {
+  return {
+    name: `Torch Training on ${ip}`,
+    message: type,
+    type,
+    state: "Done",
+    timestamp,
+    endTimestamp,
+    ip,
+    epoch: step,
+    step,
+    nSteps: 2,
+  }
+}
+
+/** @return one sample of a GPU */
+function gpu(timestamp: number, utilizationGPU: number): GpuLog {
+  return {
+    hostname: "worker-a",
+    timestamp,
+    gpuType: "Tesla V100-SXM2-16GB",
+    utilizationGPU,
+    utilizationMemory: 0,
+    totalMemory: 16384,
+    temperatureGPU: 40,
+    metrics: {},
+    units: {},
+  }
+}
+
+/** @return one vmstat sample */
+function cpu(timestamp: number, user: number, iowait: number): CpuLog {
+  return { hostname: "worker-a", timestamp, user, system: 0, iowait, idle: 100 - user - iowait, freeMemory: 0 }
+}
+
+test("phases of a captured run that trains one task per seed, back to back", async () => {
+  const r = run("1")
+  const events = torchEvents(await r.logs())
+  const all = phases(events, 0, Date.now())
+
+  expect(all.map((_) => _.name)).toEqual([
+    "Data Loading",
+    ...[1, 2, 3, 4].flatMap((task) => [0, 1, 2, 3, 4, 5].map((epoch) => `Task ${task} Epoch ${epoch}`)),
+  ])
+
+  // each task's epochs follow the previous task's
+  all.slice(2).forEach((phase, idx) => expect(phase.start).toBeGreaterThanOrEqual(all[idx + 1].end))
+})
+
+test("epochs of the workers of a single task are merged", () => {
+  const all = phases(
+    [
+      event("10.0.0.1", "Epoch", 1000, 2000, 0),
+      event("10.0.0.2", "Epoch", 1100, 2200, 0),
+      event("10.0.0.1", "Epoch", 2000, 3000, 1),
+      event("10.0.0.2", "Epoch", 2200, 3100, 1),
+    ],
+    0,
+    4000
+  )
+
+  expect(all).toEqual([
+    { name: "Epoch 0", start: 1000, end: 2200 },
+    { name: "Epoch 1", start: 2000, end: 3100 },
+  ])
+})
+
+test("a run with no structure is one phase", () => {
+  expect(phases([], 0, 4000)).toEqual([{ name: "Run", start: 0, end: 4000 }])
+})
+
+test("bottlenecks of a captured run", async () => {
+  const r = run("1")
+  const analyses = analyze(torchEvents(await r.logs()), await r.gpu(), await r.vmstat())
+
+  expect(analyses).toHaveLength(25)
+  expect(analyses[0].phase.name).toBe("Data Loading")
+  expect(analyses[0].bottleneck).toBe("Data Loading")
+})
+
+test("bottleneck classification", () => {
+  const epoch = [event("10.0.0.1", "Epoch", 1000, 11000)]
+  const fetch = [event("10.0.0.1", "Data Fetch from Upstream", 1000, 6000)]
+  const samples = [1000, 6000, 11000]
+
+  expect(
+    analyze(
+      epoch,
+      samples.map((_) => gpu(_, 90)),
+      []
+    )[0].bottleneck
+  ).toBe("GPU")
+  expect(
+    analyze(
+      epoch,
+      samples.map((_) => gpu(_, 20)),
+      []
+    )[0].bottleneck
+  ).toBe("CPU")
+  expect(
+    analyze(
+      epoch,
+      samples.map((_) => gpu(_, 50)),
+      samples.map((_) => cpu(_, 10, 30))
+    )[0].bottleneck
+  ).toBe("Data Loading")
+  expect(
+    analyze(
+      epoch,
+      samples.map((_) => gpu(_, 50)),
+      samples.map((_) => cpu(_, 10, 0))
+    )[0].bottleneck
+  ).toBe("Unknown")
+
+  const [data] = analyze(
+    [...fetch, ...epoch],
+    samples.map((_) => gpu(_, 90)),
+    []
+  )
+  expect(data.phase.name).toBe("Data Loading")
+  expect(data.bottleneck).toBe("Data Loading")
+})
+
+test("run bounds of long captures", () => {
+  const samples = Array.from({ length: 200000 }, (_, idx) => gpu(idx * 1000, 90))
+  expect(analyze([], samples, [])).toEqual([
+    expect.objectContaining({ phase: { name: "Run", start: 0, end: 199999000 }, bottleneck: "GPU" }),
+  ])
+})
@@ -0,0 +1,123 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { tmpdir } from "os"
+import { join } from "path"
+import { copyFile, mkdtemp, readFile, rm, writeFile } from "fs/promises"
+import { test, expect } from "@playwright/test"
+import { Arguments } from "@kui-shell/core"
+
+import { readInput } from "../inputs"
+import { readArchive } from "../../../plugins/plugin-codeflare/src/lib/archive-readers"
+import { ArchiveVFS } from "../../../plugins/plugin-codeflare/src/controller/archive"
+import RunDirectory from "../../../plugins/plugin-codeflare/src/controller/run/RunDirectory"
+
+/** A long member name, which tar stores in a header of its own */
+const longName =
+  "resources/" + "a-capture-with-a-name-that-does-not-fit-in-the-hundred-bytes-of-a-tar-header-".repeat(2) + "gpu.txt"
+
+/** @return the location of the given archived run */
+function archive(name: string) {
+  return join(__dirname, "inputs", name)
+}
+
+/** Just enough of a REPL to serve the `vfs fslice` reads of `RunDirectory` from the given archive */
+function REPL(vfs: ArchiveVFS) {
+  return {
+    qexec: (command: string) => vfs.fslice(command.replace(/^vfs fslice (.+) 0$/, "$1").replace(/^'(.*)'$/, "$1"), 0),
+  } as unknown as Arguments["REPL"]
+}
+
+for (const name of ["run.tar.gz", "run.zip"]) {
+  test(`members of ${name} round-trip`, async () => {
+    const members = await readArchive(archive(name))
+
+    expect(Array.from(members.keys()).sort()).toEqual(
+      ["job.json", "logs/job.txt", longName, "ray-job-definition.json"].sort()
+    )
+    for (const path of ["job.json", "logs/job.txt", "ray-job-definition.json"]) {
+      expect(members.get(path)?.toString()).toBe(await readInput("2", path))
+    }
+    expect(members.get(longName)?.toString()).toBe((await readInput("2", "resources/gpu.txt")).slice(0, 2000))
+  })
+
+  test(`a run directory within ${name}`, async () => {
+    const vfs = new ArchiveVFS(archive(name))
+    const run = new RunDirectory(vfs.mountPath, REPL(vfs))
+
+    expect((await run.jobDefinition())?.start_time).toBe(1658163529775)
+    expect(await run.logs()).toContain("Num Epochs = 6")
+    expect(await run.events()).toBe("")
+  })
+}
+
+test("archives as directories", async () => {
+  const vfs = new ArchiveVFS(archive("run.tar.gz"))
+  const REPL = {} as Arguments["REPL"]
+
+  expect((await vfs.ls({ REPL }, [vfs.mountPath])).map((_) => `${_.name} ${_.dirent.isDirectory}`).sort()).toEqual([
+    "job.json false",
+    "logs true",
+    "ray-job-definition.json false",
+    "resources true",
+  ])
+  expect((await vfs.ls({ REPL }, [join(vfs.mountPath, "logs")])).map((_) => _.path)).toEqual([
+    join(vfs.mountPath, "logs/job.txt"),
+  ])
+
+  expect(await vfs.fstat({ REPL }, join(vfs.mountPath, "logs"))).toMatchObject({ isDirectory: true, size: 0 })
+  expect(await vfs.fstat({ REPL }, join(vfs.mountPath, "job.json"), true)).toMatchObject({
+    isDirectory: false,
+    data: await readInput("2", "job.json"),
+  })
+  expect(await vfs.fstat({ REPL }, join(vfs.mountPath, "nope"), false, true)).toMatchObject({ isDirectory: false })
+  await expect(vfs.fstat({ REPL }, join(vfs.mountPath, "nope"))).rejects.toThrow("nope: No such file in run.tar.gz")
+
+  expect(await vfs.fslice(join(vfs.mountPath, "job.json"), 2, 5)).toBe((await readInput("2", "job.json")).slice(2, 7))
+  const write: Promise<unknown> = vfs.rm()
+  await expect(write).rejects.toThrow("run.tar.gz is a read-only archive")
+})
+
+test("archives are read again once they change", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-archive-"))
+  try {
+    const filepath = join(dir, "run.tar.gz")
+
+    // e.g. a download that has yet to complete
+    await writeFile(filepath, "not yet")
+    await expect(readArchive(filepath)).rejects.toThrow()
+
+    await copyFile(archive("run.tar.gz"), filepath)
+    expect((await readArchive(filepath)).has("logs/job.txt")).toBe(true)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+})
+
+test("zip members compressed other than by deflate are rejected", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-archive-"))
+  try {
+    // mark the first member of the central directory as compressed with bzip2
+    const zip = await readFile(archive("run.zip"))
+    zip.writeUInt16LE(12, zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 10)
+
+    const filepath = join(dir, "run.zip")
+    await writeFile(filepath, zip)
+    await expect(readArchive(filepath)).rejects.toThrow(/Unsupported compression method 12 of zip member/)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+})
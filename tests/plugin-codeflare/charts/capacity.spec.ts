@@ -0,0 +1,56 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import { parseContent, toTypeMap } from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/capacity"
+
+test("capacity records, one per node per sample", async () => {
+  const logs = parseContent(await readInput("2", "resources/node-stats.txt"))
+
+  expect(logs).toHaveLength(14 * 11)
+  expect(logs[2]).toEqual({
+    hostname: "ip-10-0-131-199.ec2.internal",
+    timestamp: new Date("2022-07-18T12:59:00-04:00").getTime(),
+    nodeType: "m4.large",
+    gpuCapacity: 0,
+    gpuFree: 0,
+    cpuCapacity: 2,
+    cpuFree: 1.5,
+    memoryCapacity: 8149576 * 1024,
+    memoryFree: 6998600 * 1024,
+    diskCapacity: 125293548 * 1024,
+    diskFree: 115470533646,
+  })
+})
+
+test("capacity summed by node type", async () => {
+  const M = toTypeMap(parseContent(await readInput("2", "resources/node-stats.txt")))
+
+  expect(Object.keys(M).sort()).toEqual(["m4.large", "m4.xlarge", "p3.2xlarge"])
+  Object.values(M).forEach((records) => expect(records).toHaveLength(14))
+  expect(M["p3.2xlarge"][0].gpuCapacity).toBe(5)
+  expect(M["p3.2xlarge"][0].cpuCapacity).toBe(40)
+  expect(M["m4.large"][0].cpuFree).toBe(4.5)
+})
+
+test("capacity of a node without a type", () => {
+  const logs = parseContent(["Sample 2022-07-18T12:59:00-04:00", "NAME GPUCap CPUCap", "node-a 1 8"].join("\n"))
+  expect(logs[0].nodeType).toBe("Unknown")
+  expect(logs[0].gpuCapacity).toBe(1)
+  expect(logs[0].memoryCapacity).toBe(0)
+})
@@ -0,0 +1,60 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import downsample, { Point } from "../../../plugins/plugin-codeflare/src/controller/charts/downsample"
+
+/** @return a sawtooth series of `N` points, one per unit of x */
+function sawtooth(N: number, period = 7): Point[] {
+  return Array.from({ length: N }, (_, x) => ({ x, y: x % period }))
+}
+
+test("downsample leaves short series alone", () => {
+  const data = sawtooth(10)
+  expect(downsample(data, 0, 9, 10)).toEqual(data)
+  expect(downsample(data, 2, 5, 10).map((_) => _.x)).toEqual([2, 3, 4, 5])
+})
+
+test("downsample bounds the number of points", () => {
+  const data = sawtooth(10000)
+  const sampled = downsample(data, 0, 9999, 100)
+
+  expect(sampled.length).toBeLessThanOrEqual(2 * 100 + 2)
+  expect(sampled[0]).toBe(data[0])
+  expect(sampled[sampled.length - 1]).toBe(data[data.length - 1])
+  expect(sampled.map((_) => _.x)).toEqual(sampled.map((_) => _.x).sort((a, b) => a - b))
+})
+
+test("downsample keeps peaks and troughs", () => {
+  const data = Array.from({ length: 1000 }, (_, x) => ({ x, y: x === 500 ? 100 : x === 700 ? -100 : 0 }))
+  const sampled = downsample(data, 0, 999, 10)
+
+  expect(sampled.find((_) => _.y === 100)).toBe(data[500])
+  expect(sampled.find((_) => _.y === -100)).toBe(data[700])
+})
+
+test("downsample drops points outside of the range", () => {
+  const sampled = downsample(sawtooth(1000), 100, 199, 10)
+  expect(sampled.every(({ x }) => x >= 100 && x <= 199)).toBe(true)
+  expect(sampled[0].x).toBe(100)
+  expect(sampled[sampled.length - 1].x).toBe(199)
+})
+
+test("downsample of an empty range", () => {
+  const data = sawtooth(1000)
+  expect(downsample(data, 5, 5, 10)).toBe(data)
+})
@@ -0,0 +1,139 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import {
+  Log,
+  aggregate,
+  collateLines,
+  deviceOf,
+  extraMetrics,
+  parseContent,
+  parseRecord,
+  selectedMetrics,
+  toDeviceMap,
+} from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/gpu"
+
+/** @return the nvidia-smi lines of one record of one GPU */
+function record(hostname: string, fields: Record<string, string>, timestamp = "2022/07/18 09:58:50.739") {
+  return Object.entries(fields).map(([label, value]) => ` ${value} ${label}\t\t\t${hostname} ${timestamp}`)
+}
+
+test("gpu records of a captured run", async () => {
+  const logs = parseContent(await readInput("2", "resources/gpu.txt"))
+
+  expect(logs).toHaveLength(286)
+  expect(new Set(logs.map((_) => _.hostname)).size).toBe(4)
+  expect(logs[0]).toEqual({
+    hostname: "mycluster-ray-worker-type-nwq8q",
+    timestamp: new Date("2022/07/18 09:58:50.739").getTime(),
+    gpuType: "Tesla V100-SXM2-16GB",
+    utilizationGPU: 0,
+    utilizationMemory: 0,
+    totalMemory: 16384,
+    temperatureGPU: 35,
+    metrics: { "Utilization.GPU": 0, "Utilization.Memory": 0, "Memory.Total": 16384, "Temperature.GPU": 35 },
+    units: { "Utilization.GPU": "%", "Utilization.Memory": "%", "Memory.Total": "MiB", "Temperature.GPU": "" },
+  })
+  expect(extraMetrics(logs)).toEqual([])
+})
+
+test("gpu records are keyed by metric label, in any order", () => {
+  const log = parseRecord(
+    record("host-a", {
+      "Power.Draw": "56.12 W",
+      "Temperature.GPU": "41",
+      Index: "3",
+      UUID: "GPU-a1b2c3d4-0000",
+      GPUType: "Tesla V100-SXM2-16GB",
+      "Utilization.GPU": "87 %",
+    })
+  )
+
+  expect(log.hostname).toBe("host-a")
+  expect(log.gpuType).toBe("Tesla V100-SXM2-16GB")
+  expect(log.gpuIndex).toBe(3)
+  expect(log.gpuUUID).toBe("GPU-a1b2c3d4-0000")
+  expect(log.utilizationGPU).toBe(87)
+  expect(log.temperatureGPU).toBe(41)
+  expect(isNaN(log.utilizationMemory)).toBe(true)
+  expect(log.metrics["Power.Draw"]).toBe(56.12)
+  expect(log.units["Power.Draw"]).toBe("W")
+  expect(extraMetrics([log])).toEqual(["Power.Draw"])
+})
+
+test("gpu --metrics option", () => {
+  const logs = [
+    parseRecord(record("host-a", { "Power.Draw": "56 W", "Clocks.SM": "1530 MHz", "Utilization.GPU": "1 %" })),
+  ]
+
+  expect(selectedMetrics(undefined, logs)).toEqual([])
+  expect(selectedMetrics("Power.Draw", logs)).toEqual(["Power.Draw"])
+  expect(selectedMetrics("all", logs)).toEqual(["Clocks.SM", "Power.Draw"])
+})
+
+test("gpu records are complete only once followed by a blank line", () => {
+  const M: Log[] = []
+  const lines = record("host-a", { "Utilization.GPU": "1 %" })
+
+  expect(collateLines(M, lines)).toEqual(lines)
+  expect(M).toHaveLength(0)
+
+  expect(collateLines(M, lines.concat([""]))).toEqual([])
+  expect(M).toHaveLength(1)
+})
+
+test("gpu device labels", () => {
+  const gpu = (fields: Record<string, string>) => parseRecord(record("host-a", fields))
+
+  expect(deviceOf(gpu({ Index: "2", UUID: "GPU-a1b2c3d4-0000" }))).toBe("GPU2")
+  expect(deviceOf(gpu({ UUID: "GPU-a1b2c3d4-0000" }))).toBe("a1b2c3d4")
+  expect(deviceOf(gpu({ "Utilization.GPU": "1 %" }))).toBe("GPU")
+})
+
+test("gpu records of a multi-GPU host", () => {
+  const gpu = (index: number, utilization: number, temperature: number, timestamp: string) =>
+    parseRecord(
+      record(
+        "host-a",
+        {
+          Index: String(index),
+          "Utilization.GPU": `${utilization} %`,
+          "Utilization.Memory": "10 %",
+          "Memory.Total": "16384 MiB",
+          "Temperature.GPU": String(temperature),
+        },
+        timestamp
+      )
+    )
+
+  const t1 = "2022/07/18 09:58:50.739"
+  const t2 = "2022/07/18 09:58:55.739"
+  const logs = [gpu(0, 20, 40, t1), gpu(1, 60, 50, t1), gpu(0, 30, 41, t2), gpu(1, 70, 45, t2)]
+
+  const M = toDeviceMap(logs)
+  expect(Object.keys(M)).toEqual(["GPU0", "GPU1"])
+  expect(M.GPU1.map((_) => _.utilizationGPU)).toEqual([60, 70])
+
+  const samples = aggregate(logs)
+  expect(samples).toHaveLength(2)
+  expect(samples.map((_) => _.utilizationGPU)).toEqual([40, 50])
+  expect(samples.map((_) => _.totalMemory)).toEqual([32768, 32768])
+  expect(samples.map((_) => _.temperatureGPU)).toEqual([50, 45])
+  expect(samples[0].gpuIndex).toBeUndefined()
+})
@@ -0,0 +1,64 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput, run } from "../inputs"
+import { parseSamples, samplingInterval } from "../../../plugins/plugin-codeflare/src/controller/charts/samples"
+import {
+  Log,
+  collateLine,
+  defaultSamplingIntervalMillis,
+  parseContent,
+} from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/memory"
+
+test("memory records, one per pod per sample", async () => {
+  const logs = parseContent(await readInput("2", "resources/pod-memory.txt"))
+
+  expect(logs).toHaveLength(75)
+  expect(new Set(logs.map((_) => _.hostname)).size).toBe(5)
+  expect(logs[logs.length - 1].sample).toBe(14)
+  expect(logs[0]).toEqual({
+    hostname: "mycluster-ray-worker-type-vf2n9",
+    timestamp: 0,
+    sample: 0,
+    usedBytes: 216252416,
+    limitBytes: 34359738368,
+  })
+})
+
+test("memory timestamps are spaced by the given sampling interval", () => {
+  const logs = parseContent("a 1 2\nb 1 2\na 3 4\nb 3 4\n", 1000, 30 * 1000)
+  expect(logs.map((_) => _.timestamp)).toEqual([1000, 1000, 31000, 31000])
+})
+
+test("memory lines that are not well-formed are skipped", () => {
+  const M = ["a 1", "a x 2", "", "a 1 2"].reduce((M, line) => collateLine(M, line), [] as Log[])
+  expect(M).toHaveLength(1)
+})
+
+test("memory sampling interval is derived from pod-stats.txt", async () => {
+  expect(samplingInterval(parseSamples(await readInput("2", "resources/pod-stats.txt")))).toBe(10 * 1000)
+  expect(samplingInterval(parseSamples("Sample 2022-07-18T12:59:00-04:00\n"))).toBeUndefined()
+
+  const logs = await run("2").memory(1000)
+  expect(logs[logs.length - 1].timestamp).toBe(1000 + 14 * 10 * 1000)
+})
+
+test("memory falls back to the default sampling interval", () => {
+  const logs = parseContent("a 1 2\na 3 4\n")
+  expect(logs[1].timestamp).toBe(defaultSamplingIntervalMillis)
+})
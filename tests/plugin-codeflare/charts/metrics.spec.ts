@@ -0,0 +1,66 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import { metricNames, parseContent } from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/metrics"
+
+/** @return a job log line of the given worker */
+function line(ip: string, rest: string) {
+  return `(Process_task pid=330, ip=${ip}) ${rest}`
+}
+
+test("training metrics of a captured run", async () => {
+  const logs = parseContent(await readInput("2", "logs/job.txt"))
+
+  expect(metricNames(logs)).toContain("it/s")
+  expect(new Set(logs.map((_) => _.hostname))).toContain("10.128.86.42")
+})
+
+test("iteration throughput is spread across the epochs of a captured run", async () => {
+  const throughput = parseContent(await readInput("2", "logs/job.txt")).filter(
+    (_) => _.hostname === "10.128.86.42" && _.metric === "it/s"
+  )
+
+  // the last timestamped line precedes the 6 epochs of about 4s each
+  const start = new Date("07/18/2022 10:00:41").getTime()
+  expect(throughput[0].timestamp).toBeGreaterThanOrEqual(start)
+  expect(throughput[throughput.length - 1].timestamp - start).toBeGreaterThanOrEqual(5 * 4000)
+})
+
+test("restarted bars are anchored at the current time of their epoch", () => {
+  const ip = "10.0.0.1"
+  const logs = parseContent(
+    [
+      line(ip, "07/18/2022 10:00:00 - INFO - transformers.trainer -     Num Epochs = 2"),
+      line(ip, "Epoch:   0%|          | 0/2 [00:00<?, ?it/s]"),
+      line(ip, "Iteration:   0%|          | 0/20 [00:00<?, ?it/s]"),
+      line(ip, "Iteration:  50%|█████     | 10/20 [00:02<00:02,  5.00it/s]"),
+      line(ip, "Iteration: 100%|██████████| 20/20 [00:04<00:00,  5.00it/s]"),
+      line(ip, "Epoch:  50%|█████     | 1/2 [00:04<00:04,  4.00s/it]"),
+      line(ip, "Iteration:   0%|          | 0/20 [00:00<?, ?it/s]"),
+      line(ip, "Iteration:  50%|█████     | 10/20 [00:02<00:02,  5.00it/s]"),
+    ].join("\n")
+  )
+
+  const start = new Date("07/18/2022 10:00:00").getTime()
+  expect(logs.filter((_) => _.metric === "it/s").map((_) => _.timestamp - start)).toEqual([2000, 4000, 6000])
+})
+
+test("progress bars before any timestamp are skipped", () => {
+  expect(parseContent(line("10.0.0.1", "Iteration:  50%|█████     | 10/20 [00:02<00:02,  5.00it/s]"))).toEqual([])
+})
@@ -0,0 +1,83 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput, run } from "../inputs"
+import { parseSamples } from "../../../plugins/plugin-codeflare/src/controller/charts/samples"
+import {
+  isWorker,
+  lifetimes,
+  parseContent,
+  workerCounts,
+} from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/pods"
+
+test("pod records, one per pod per sample", async () => {
+  const logs = parseContent(await readInput("2", "resources/pod-stats.txt"))
+
+  expect(logs).toHaveLength(14 * 5)
+  expect(logs[0]).toEqual({
+    hostname: "mycluster-ray-head-type-kvqkk",
+    timestamp: new Date("2022-07-18T12:59:00-04:00").getTime(),
+    gpuRequest: 0,
+    cpuRequest: 1,
+    memoryRequest: 32 * 1024 ** 3,
+  })
+  expect(logs[1].gpuRequest).toBe(1)
+})
+
+test("pod lifetimes", async () => {
+  const L = lifetimes(await run("2").podStats())
+
+  expect(L.map((_) => _.name)).toEqual([
+    "mycluster-ray-head-type-kvqkk",
+    "mycluster-ray-worker-type-htgd6",
+    "mycluster-ray-worker-type-nwq8q",
+    "mycluster-ray-worker-type-vbblg",
+    "mycluster-ray-worker-type-vf2n9",
+  ])
+  expect(L.filter((_) => isWorker(_.name))).toHaveLength(4)
+  expect(L.every((_) => _.firstSeen === new Date("2022-07-18T12:59:00-04:00").getTime())).toBe(true)
+  expect(L.every((_) => _.lastSeen === undefined)).toBe(true)
+})
+
+test("worker counts, one per sample", async () => {
+  const counts = workerCounts(await run("2").podSamples())
+
+  expect(counts).toHaveLength(14)
+  expect(counts.every((_) => _.nWorkers === 4)).toBe(true)
+})
+
+test("worker counts of samples with no pods", () => {
+  const counts = workerCounts(
+    parseSamples(
+      [
+        "Sample 2022-07-18T12:59:00-04:00",
+        "NAME                              GPUReq   CPUReq   MemReq",
+        "mycluster-ray-head-type-kvqkk     <none>   1        32Gi",
+        "mycluster-ray-worker-type-htgd6   1        1        32Gi",
+        "Sample 2022-07-18T12:59:10-04:00",
+        "NAME                              GPUReq   CPUReq   MemReq",
+        "Sample 2022-07-18T12:59:20-04:00",
+        "NAME                              GPUReq   CPUReq   MemReq",
+        "mycluster-ray-head-type-kvqkk     <none>   1        32Gi",
+      ].join("\n")
+    )
+  )
+
+  expect(counts.map((_) => _.nWorkers)).toEqual([1, 0, 0])
+  expect(counts[1].timestamp).toBe(new Date("2022-07-18T12:59:10-04:00").getTime())
+})
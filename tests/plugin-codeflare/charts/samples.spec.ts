@@ -0,0 +1,66 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import { parseQuantity, parseSamples } from "../../../plugins/plugin-codeflare/src/controller/charts/samples"
+
+test("resource quantities", () => {
+  expect(parseQuantity("7500m")).toBe(7.5)
+  expect(parseQuantity("32Gi")).toBe(32 * 1024 ** 3)
+  expect(parseQuantity("62855724Ki")).toBe(62855724 * 1024)
+  expect(parseQuantity("115470533646")).toBe(115470533646)
+  expect(parseQuantity("<none>")).toBe(0)
+  expect(parseQuantity()).toBe(0)
+})
+
+test("samples of node-stats.txt", async () => {
+  const samples = parseSamples(await readInput("2", "resources/node-stats.txt"))
+
+  expect(samples).toHaveLength(14)
+  expect(samples[0].timestamp).toBe(new Date("2022-07-18T12:59:00-04:00").getTime())
+  expect(samples.every((_) => _.rows.length === 11)).toBe(true)
+  expect(samples[0].rows[0]).toEqual({
+    NAME: "ip-10-0-130-248.ec2.internal",
+    GPUCap: "1",
+    GPUFree: "1",
+    CPUCap: "8",
+    CPUFree: "7500m",
+    MemCap: "62855724Ki",
+    MemFree: "61704748Ki",
+    DiskCap: "125293548Ki",
+    DiskFree: "115470533646",
+    Type: "p3.2xlarge",
+  })
+})
+
+test("samples skip rows that are missing cells", () => {
+  const samples = parseSamples(
+    [
+      "Sample 2022-07-18T12:59:00-04:00",
+      "NAME   GPUReq   CPUReq   MemReq",
+      "pod-a  <none>   1        32Gi",
+      "pod-b  1",
+      "Sample 2022-07-18T12:59:10-04:00",
+      "NAME   GPUReq   CPUReq   MemReq",
+    ].join("\n")
+  )
+
+  expect(samples).toHaveLength(2)
+  expect(samples[0].rows.map((_) => _.NAME)).toEqual(["pod-a"])
+  expect(samples[1].rows).toHaveLength(0)
+})
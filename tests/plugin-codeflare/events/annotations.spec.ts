@@ -0,0 +1,58 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import torchEvents from "../../../plugins/plugin-codeflare/src/controller/events/torch"
+import { torchAnnotations } from "../../../plugins/plugin-codeflare/src/controller/events/annotations"
+
+test("one annotation per epoch, spanning the epoch on all workers", async () => {
+  const events = torchEvents(stripAnsi(await readInput("2", "logs/job.txt")))
+  const epochs = events.filter((_) => _.type === "Epoch" && !_.hidden && _.state !== "Pending" && _.timestamp > 0)
+  const annotations = torchAnnotations(events).filter((_) => /^Epoch/.test(_.label))
+
+  const nEpochs = new Set(epochs.map((_) => _.epoch)).size
+  expect(nEpochs).toBeGreaterThan(1)
+  expect(annotations).toHaveLength(nEpochs)
+
+  annotations.forEach((annotation, idx) => {
+    const ofThisEpoch = epochs.filter((_) => _.epoch === idx)
+    expect(new Set(ofThisEpoch.map((_) => _.ip)).size).toBe(4)
+
+    expect(annotation.label).toBe(`Epoch ${idx + 1}`)
+    expect(annotation.start).toBe(Math.min(...ofThisEpoch.map((_) => _.timestamp)))
+    expect(annotation.end).toBe(Math.max(...ofThisEpoch.map((_) => _.endTimestamp || 0)))
+  })
+})
+
+test("data phases are annotated per worker", () => {
+  const line = (ip: string, time: string, rest: string) => `(Process_task pid=330, ip=${ip}) 2022-07-18 ${time} ${rest}`
+  const events = torchEvents(
+    [
+      line("10.0.0.1", "10:00:00", "Data: try remote get"),
+      line("10.0.0.2", "10:00:00", "Data: try remote get"),
+      line("10.0.0.1", "10:00:10", "Data: done remote get"),
+      line("10.0.0.2", "10:00:20", "Data: done remote get"),
+    ].join("\n")
+  )
+
+  expect(torchAnnotations(events).map((_) => `${_.label} ${(_.end || 0) - _.start}`)).toEqual([
+    "Data Fetch from Upstream on 10.0.0.1 10000",
+    "Data Fetch from Upstream on 10.0.0.2 20000",
+  ])
+})
@@ -0,0 +1,85 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import frameworkEvents, { ipOf, timestampOf } from "../../../plugins/plugin-codeflare/src/controller/events/collators"
+import lightning from "../../../plugins/plugin-codeflare/src/controller/events/collators/lightning"
+import huggingface from "../../../plugins/plugin-codeflare/src/controller/events/collators/huggingface"
+
+const worker = "(RayTrainWorker pid=123, ip=10.128.86.42)"
+
+test("collator log line helpers", () => {
+  expect(ipOf(`${worker} Epoch 0:  45%|████▌     | 450/1000`)).toBe("10.128.86.42")
+  expect(ipOf("Epoch 0:  45%|████▌     | 450/1000")).toBe("")
+
+  expect(timestampOf([], `${worker} 2022-07-18 09:59:06 Starting`)).toBe(new Date("2022-07-18 09:59:06").getTime())
+  expect(timestampOf([], `${worker} Epoch 0:  45%|████▌     | 450/1000`)).toBeUndefined()
+})
+
+test("no collators, no events", () => {
+  expect(frameworkEvents([], "2022-07-18 09:59:06 Epoch 0:  45%|████▌     | 450/1000")).toEqual([])
+})
+
+test("lightning progress is placed at the most recent timestamp in the logs", () => {
+  const events = frameworkEvents(
+    [lightning],
+    [
+      `${worker} Epoch 0:   0%|          | 0/1000 [00:00<?, ?it/s]`,
+      `${worker} 2022-07-18 09:59:06 Starting`,
+      `${worker} Epoch 0:  45%|████▌     | 450/1000 [00:30<00:37, 14.8it/s, loss=0.693, v_num=0]`,
+      `${worker} Validation DataLoader 0:  100%|██████████| 10/10 [00:01<00:00,  4.1it/s]`,
+      `${worker} 2022-07-18 10:01:06 Still going`,
+      `${worker} Epoch 1:   0%|          | 0/1000 [00:00<?, ?it/s]`,
+    ].join("\n")
+  )
+
+  // the first progress line precedes any timestamp, so we cannot place it in time
+  expect(events.map((_) => `${_.type} ${_.epoch} ${_.state}`)).toEqual([
+    "Epoch 0 Done",
+    "Evaluation 0 Done",
+    "Epoch 1 InProgress",
+  ])
+  expect(events[0].timestamp).toBe(new Date("2022-07-18 09:59:06").getTime())
+  expect(events[0].endTimestamp).toBe(new Date("2022-07-18 10:01:06").getTime())
+  expect(events[1].timestamp).toBe(new Date("2022-07-18 09:59:06").getTime())
+  expect(events.every((_) => _.ip === "10.128.86.42" && _.collator === "lightning")).toBe(true)
+})
+
+test("huggingface log dicts", () => {
+  const events = frameworkEvents(
+    [huggingface],
+    [
+      `${worker} {'loss': 0.6931, 'learning_rate': 4.9e-05, 'epoch': 0.27}`,
+      `${worker} 2022-07-18 09:59:06 Starting`,
+      `${worker} {'loss': 0.6931, 'learning_rate': 4.9e-05, 'epoch': 0.5}`,
+      `${worker} 2022-07-18 09:59:36 Evaluating`,
+      `${worker} {'eval_loss': 0.6902, 'eval_runtime': 1.2, 'epoch': 1.0}`,
+      `${worker} {'loss': 0.6800, 'learning_rate': 4.8e-05, 'epoch': 1.2}`,
+      `${worker} 2022-07-18 10:00:06 Done`,
+      `${worker} {'train_runtime': 123.4, 'train_loss': 0.69, 'epoch': 2.0}`,
+    ].join("\n")
+  )
+
+  expect(events.map((_) => `${_.type} ${_.epoch} ${_.state}`)).toEqual([
+    "Epoch 0 Done",
+    "Evaluation 0 Done",
+    "Epoch 1 Done",
+  ])
+  expect(events[0].timestamp).toBe(new Date("2022-07-18 09:59:06").getTime())
+  expect(events[0].endTimestamp).toBe(new Date("2022-07-18 09:59:36").getTime())
+  expect(events[2].endTimestamp).toBe(new Date("2022-07-18 10:00:06").getTime())
+})
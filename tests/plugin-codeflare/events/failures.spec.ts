@@ -0,0 +1,120 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import failureEvents from "../../../plugins/plugin-codeflare/src/controller/events/failures"
+
+/** @return a job log line of the given worker */
+function line(ip: string, rest: string) {
+  return `(Process_task pid=330, ip=${ip}) ${rest}`
+}
+
+const ip1 = "10.0.0.1"
+const ip2 = "10.0.0.2"
+const t1 = "07/18/2022 10:00:41"
+
+test("no failures in captured runs that succeeded", async () => {
+  expect(failureEvents(await readInput("1", "logs/job.txt"))).toEqual([])
+  expect(failureEvents(await readInput("2", "logs/job.txt"))).toEqual([])
+})
+
+test("a traceback is refined by its exception", () => {
+  const events = failureEvents(
+    [
+      line(ip1, `${t1} - INFO - transformers.trainer -   ***** Running training *****`),
+      line(ip1, "Traceback (most recent call last):"),
+      line(ip1, '  File "train.py", line 42, in <module>'),
+      line(ip1, "RuntimeError: CUDA out of memory. Tried to allocate 20.00 MiB"),
+      line(ip1, "this line is not part of the traceback"),
+    ].join("\n")
+  )
+
+  expect(events).toHaveLength(1)
+  expect(events[0]).toMatchObject({
+    name: `Failure on ${ip1}`,
+    state: "Error",
+    ip: ip1,
+    signature: "CUDA out of memory",
+    subtitle: "CUDA out of memory",
+    line: 2,
+    timestamp: new Date(t1).getTime(),
+    message: "RuntimeError: CUDA out of memory. Tried to allocate 20.00 MiB",
+  })
+  expect(events[0].excerpt.split(/\n/)).toHaveLength(3)
+})
+
+test("tracebacks of different workers are kept apart", () => {
+  const events = failureEvents(
+    [
+      line(ip1, `${t1} starting`),
+      line(ip1, "Traceback (most recent call last):"),
+      line(ip2, "Traceback (most recent call last):"),
+      line(ip2, "ray.exceptions.RayActorError: The actor died unexpectedly before finishing this task."),
+      line(ip1, "KeyboardInterrupt"),
+    ].join("\n")
+  )
+
+  expect(events.map((_) => `${_.ip} ${_.signature} ${_.line}`)).toEqual([
+    `${ip1} Python exception 2`,
+    `${ip2} Ray actor died 3`,
+  ])
+  expect(events[0].message).toBe("KeyboardInterrupt")
+})
+
+test("one-line failure signatures", () => {
+  const events = failureEvents(
+    [
+      `${t1} NCCL watchdog thread terminated: Timed out`,
+      line(ip2, "ray.exceptions.WorkerCrashedError: The worker died unexpectedly while executing this task."),
+      "mycluster-ray-worker-type-nwq8q was OOMKilled",
+    ].join("\n")
+  )
+
+  expect(events.map((_) => `${_.ip || "-"} ${_.signature}`)).toEqual([
+    "- NCCL timeout",
+    `${ip2} Ray worker crashed`,
+    "- Out of memory",
+  ])
+  expect(events[0].name).toBe("Failure")
+})
+
+test("long tracebacks are truncated", () => {
+  const frames = Array.from({ length: 50 }, (_, idx) => line(ip1, `  File "train.py", line ${idx}, in step`))
+  const [event] = failureEvents(
+    [line(ip1, `${t1} starting`), line(ip1, "Traceback (most recent call last):"), ...frames].join("\n")
+  )
+
+  expect(event.excerpt.split(/\n/)).toHaveLength(20)
+})
+
+test("failures that precede any timestamp are placed at the start of the run", () => {
+  const logs = [
+    line(ip1, "ray.exceptions.RayActorError: The actor died unexpectedly before finishing this task."),
+    line(ip2, `${t1} starting`),
+    line(ip2, "ray.exceptions.WorkerCrashedError: The worker died unexpectedly while executing this task."),
+  ].join("\n")
+  const startTime = new Date(t1).getTime() - 60000
+
+  expect(failureEvents(logs, startTime).map((_) => `${_.ip} ${_.timestamp}`)).toEqual([
+    `${ip1} ${startTime}`,
+    `${ip2} ${new Date(t1).getTime()}`,
+  ])
+
+  // ...and skipped, if we do not know when the run started
+  expect(failureEvents(logs).map((_) => _.ip)).toEqual([ip2])
+})
@@ -0,0 +1,125 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { readInput, run } from "../inputs"
+import kubeEvents, {
+  KubeEvent,
+  byObject,
+  collateEvent,
+  parseAge,
+  parseDuration,
+} from "../../../plugins/plugin-codeflare/src/controller/events/kube"
+
+/** @return the kubernetes events of the given captured run, anchored at the start of the run */
+async function eventsOf(directory: string) {
+  const r = run(directory)
+  const startTime = await r.startTime()
+  if (startTime === undefined) {
+    throw new Error("Run has no start time")
+  }
+  return { startTime, events: kubeEvents(await readInput(directory, "events/kubernetes.txt"), startTime) }
+}
+
+/** @return the event of the given reason of the given object */
+function find(events: KubeEvent[], object: string, reason: string) {
+  const evt = events.find((_) => _.object === object && _.reason === reason)
+  if (!evt) {
+    throw new Error(`Missing ${reason} event for ${object}`)
+  }
+  return evt
+}
+
+test("kube LAST SEEN ages", () => {
+  expect(parseAge("0s")).toBe(0)
+  expect(parseAge("5m31s")).toBe((5 * 60 + 31) * 1000)
+  expect(parseAge("3h1m")).toBe((3 * 60 + 1) * 60 * 1000)
+  expect(parseAge("2d")).toBe(2 * 24 * 60 * 60 * 1000)
+  expect(parseAge("<unknown>")).toBe(0)
+})
+
+test("kube durations reported by event messages", () => {
+  expect(parseDuration('Successfully pulled image "rayproject/ray-ml:1.13.0-py37-gpu" in 5m31.366599351s')).toBeCloseTo(
+    331366.599351
+  )
+  expect(parseDuration('Successfully pulled image "rayproject/ray:1.13.0-py37" in 40.972650191s')).toBeCloseTo(
+    40972.650191
+  )
+  expect(parseDuration('Successfully pulled image "x" in 710ms (1.2s including waiting)')).toBe(710)
+  expect(parseDuration('Container image "rayproject/ray:1.13.0-py37" already present on machine')).toBe(0)
+  expect(parseDuration("Created container ray-node")).toBe(0)
+})
+
+test("kube events of a --watch capture", async () => {
+  const { startTime, events } = await eventsOf("1")
+
+  expect(events).toHaveLength(17)
+  expect(Object.keys(byObject(events))).toEqual([
+    "deployment/ray-operator",
+    "replicaset/ray-operator-56f7b64d7b",
+    "pod/ray-operator-56f7b64d7b-dkwcc",
+    "pod/mycluster-ray-head-type-2s9nz",
+    "pod/mycluster-ray-worker-type-p2s6h",
+  ])
+
+  // every row of the capture is 0s old, i.e. printed as it happened
+  expect(events[0].timestamp).toBe(startTime)
+
+  // the image pulls take as long as kubernetes says they did
+  const head = "pod/mycluster-ray-head-type-2s9nz"
+  const pulling = find(events, head, "Pulling")
+  expect(pulling.state).toBe("Done")
+  expect((pulling.endTimestamp || 0) - pulling.timestamp).toBeCloseTo(331366.6, 0)
+
+  const worker = find(events, "pod/mycluster-ray-worker-type-p2s6h", "Pulling")
+  expect((worker.endTimestamp || 0) - worker.timestamp).toBeCloseTo(325620.8, 0)
+
+  // and what follows a pull happens after it
+  expect(find(events, head, "Created").timestamp).toBeGreaterThanOrEqual(pulling.endTimestamp || 0)
+  expect(find(events, head, "Started").timestamp).toBeGreaterThanOrEqual(pulling.endTimestamp || 0)
+  expect(find(events, head, "Scheduled").timestamp).toBeLessThanOrEqual(pulling.timestamp)
+})
+
+test("kube events of an initial listing", async () => {
+  const { startTime, events } = await eventsOf("2")
+  const minutes = (evt: KubeEvent) => (startTime - evt.timestamp) / 1000 / 60
+
+  expect(minutes(find(events, "pod/nvidia-dcgm-exporter-7qs7v", "Pulled"))).toBe(3 * 60 + 1)
+  expect(minutes(find(events, "pod/ray-operator-56f7b64d7b-wlzcb", "Pulled"))).toBe(3 * 60)
+
+  // the head was pulling when the capture began
+  const pulling = find(events, "pod/mycluster-ray-head-type-jhrqg", "Pulling")
+  expect(pulling.state).toBe("InProgress")
+  expect(pulling.endTimestamp).toBeUndefined()
+})
+
+test("kube events that recur are counted", () => {
+  const now = new Date("2022-07-18T12:59:00-04:00").getTime()
+  const rows = [
+    "10s   Warning   BackOff   pod/mycluster-ray-worker-type-p2s6h   Back-off restarting failed container",
+    "5s    Warning   BackOff   pod/mycluster-ray-worker-type-p2s6h   Back-off restarting failed container",
+    "0s    Normal    Killing   pod/mycluster-ray-worker-type-p2s6h   Stopping container ray-node",
+    "0s    Normal    Frobbed   pod/mycluster-ray-worker-type-p2s6h   Something else",
+  ]
+  const events = rows.reduce((M, line) => collateEvent(M, line, now), [] as KubeEvent[])
+
+  expect(events.map((_) => _.type)).toEqual(["BackOff", "Killing", "Other"])
+  expect(events[0].count).toBe(2)
+  expect(events[0].state).toBe("Error")
+  expect(events[0].timestamp).toBe(now - 10 * 1000)
+  expect(events[2].reason).toBe("Frobbed")
+})
@@ -0,0 +1,98 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import torchEvents, { TorchEvent } from "../../../plugins/plugin-codeflare/src/controller/events/torch"
+import stragglers, {
+  describeStragglers,
+  progressRates,
+} from "../../../plugins/plugin-codeflare/src/controller/events/stragglers"
+
+const hour = 60 * 60 * 1000
+
+/** @return the completed Epochs of a worker that takes the given time per Epoch */
+function epochs(ip: string, millisPerEpoch: number, nEpochs = 4): TorchEvent[] {
+  return Array.from({ length: nEpochs }, (_, step) => ({
+    name: `Torch Training on ${ip}`,
+    message: `Epoch ${step} of ${nEpochs}`,
+    type: "Epoch",
+    state: "Done",
+    timestamp: step * millisPerEpoch,
+    endTimestamp: (step + 1) * millisPerEpoch,
+    ip,
+    epoch: step,
+    step,
+    nSteps: nEpochs,
+  }))
+}
+
+test("no stragglers among the workers of a captured run", async () => {
+  const events = torchEvents(stripAnsi(await readInput("2", "logs/job.txt")))
+
+  expect(progressRates(events).map((_) => _.ip)).toEqual([
+    "10.128.86.42",
+    "10.129.86.14",
+    "10.130.86.15",
+    "10.131.84.17",
+  ])
+  expect(stragglers(events)).toEqual([])
+})
+
+test("progress rates are in epochs per hour", () => {
+  expect(progressRates(epochs("10.0.0.1", hour / 2))).toEqual([{ ip: "10.0.0.1", epochsPerHour: 2 }])
+})
+
+test("stragglers lag the median rate by more than the margin, slowest first", () => {
+  const events = [
+    ...epochs("10.0.0.1", hour),
+    ...epochs("10.0.0.2", hour),
+    ...epochs("10.0.0.3", 2 * hour),
+    ...epochs("10.0.0.4", hour),
+    ...epochs("10.0.0.5", 4 * hour),
+  ]
+
+  const slow = stragglers(events)
+  expect(slow.map((_) => _.ip)).toEqual(["10.0.0.5", "10.0.0.3"])
+  expect(slow.map((_) => _.lag)).toEqual([0.75, 0.5])
+  expect(describeStragglers(slow)).toBe("10.0.0.5 (75% slower than median), 10.0.0.3 (50% slower than median)")
+
+  // a looser margin lets the worker that is half as fast off the hook
+  expect(stragglers(events, 0.6).map((_) => _.ip)).toEqual(["10.0.0.5"])
+})
+
+test("a lone worker has no peers to lag", () => {
+  expect(stragglers(epochs("10.0.0.1", 10 * hour))).toEqual([])
+})
+
+test("iterations count as fractional epochs", () => {
+  const iterations: TorchEvent[] = Array.from({ length: 4 }, (_, step) => ({
+    name: "Torch Training on 10.0.0.1",
+    message: `Epoch 0 - Iteration ${step} of 4`,
+    type: "Iteration",
+    state: "Done",
+    timestamp: (step * hour) / 4,
+    endTimestamp: ((step + 1) * hour) / 4,
+    ip: "10.0.0.1",
+    epoch: 0,
+    step,
+    nSteps: 4,
+  }))
+
+  expect(progressRates(iterations)).toEqual([{ ip: "10.0.0.1", epochsPerHour: 1 }])
+})
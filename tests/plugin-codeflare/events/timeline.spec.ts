@@ -0,0 +1,54 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { GenericEvent } from "../../../plugins/plugin-codeflare/src/controller/events/Event"
+import spans, { laneOf } from "../../../plugins/plugin-codeflare/src/controller/events/timeline"
+
+function evt(type: string, state: GenericEvent["state"], timestamp: number, detail: Record<string, unknown> = {}) {
+  return Object.assign({ name: `${type} event`, message: type, type, state, timestamp }, detail) as GenericEvent
+}
+
+test("timeline lanes", () => {
+  expect(laneOf(evt("Epoch", "Done", 1, { ip: "10.0.0.1" }))).toBe("10.0.0.1")
+  expect(laneOf(evt("Pulling", "Done", 1, { object: "pod/p" }))).toBe("pod/p")
+  expect(laneOf(evt("Trial", "Done", 1))).toBe("Trial event")
+})
+
+test("timeline spans of started, coarse-grained, visible events", () => {
+  const now = 1000
+  const S = spans(
+    [
+      evt("Epoch", "Done", 200, { ip: "10.0.0.2", endTimestamp: 300 }),
+      evt("Epoch", "InProgress", 100, { ip: "10.0.0.1" }),
+      evt("Epoch", "Pending", 50, { ip: "10.0.0.1" }),
+      evt("Iteration", "Done", 100, { ip: "10.0.0.1", endTimestamp: 110 }),
+      evt("Marker", "Done", 100, { ip: "10.0.0.1", hidden: true }),
+      evt("Pulling", "Done", 0, { object: "pod/p" }),
+      evt("Created", "Done", 20, { ip: "10.0.0.1" }),
+      evt("Started", "Error", 500, { ip: "10.0.0.2", endTimestamp: 400 }),
+    ],
+    now
+  )
+
+  expect(S.map((_) => `${_.lane} ${_.type} ${_.start}-${_.end}`)).toEqual([
+    "10.0.0.1 Created 20-20",
+    "10.0.0.1 Epoch 100-1000",
+    "10.0.0.2 Epoch 200-300",
+    "10.0.0.2 Started 500-500",
+  ])
+})
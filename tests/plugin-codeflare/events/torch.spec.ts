@@ -0,0 +1,80 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import stripAnsi from "strip-ansi"
+import { test, expect } from "@playwright/test"
+
+import { readInput } from "../inputs"
+import torchEvents from "../../../plugins/plugin-codeflare/src/controller/events/torch"
+
+/** @return the torch events of one worker of a captured run */
+async function events(ip = "10.128.86.42") {
+  return torchEvents(stripAnsi(await readInput("2", "logs/job.txt"))).filter((_) => _.ip === ip && !_.hidden)
+}
+
+test("torch epochs of a captured run", async () => {
+  const epochs = (await events()).filter((_) => _.type === "Epoch")
+
+  expect(epochs.map((_) => `${_.step}/${_.nSteps} ${_.state}`)).toEqual([
+    "0/6 Done",
+    "1/6 Done",
+    "2/6 Done",
+    "3/6 Done",
+    "4/6 Done",
+    "5/6 Done",
+  ])
+  epochs.slice(1).forEach((epoch, idx) => expect(epoch.timestamp).toBe(epochs[idx].endTimestamp))
+})
+
+test("torch iterations fall inside their epoch", async () => {
+  const all = await events()
+  const epochs = all.filter((_) => _.type === "Epoch")
+  const iterations = all.filter((_) => _.type === "Iteration")
+
+  expect(iterations.length).toBeGreaterThan(epochs.length)
+  iterations.forEach((iteration) => {
+    const epoch = epochs[iteration.epoch]
+    expect(iteration.state).toBe("Done")
+    expect(iteration.timestamp).toBeGreaterThanOrEqual(epoch.timestamp)
+    expect(iteration.endTimestamp).toBeLessThanOrEqual(epoch.endTimestamp as number)
+  })
+})
+
+test("torch evaluation steps are done by the end of the evaluation", async () => {
+  const all = await events()
+  const evaluation = all.find((_) => _.type === "Evaluation")
+  const steps = all.filter((_) => _.type === "EvaluationStep")
+
+  expect(evaluation?.state).toBe("Done")
+  expect(steps).toHaveLength(8)
+  steps.forEach((step) => {
+    expect(step.state).toBe("Done")
+    expect(step.endTimestamp).toBeGreaterThanOrEqual(step.timestamp)
+    expect(step.endTimestamp).toBeLessThanOrEqual(evaluation?.endTimestamp as number)
+  })
+})
+
+test("torch progress that precedes any timestamp of its worker is skipped", () => {
+  const line = (ip: string, rest: string) => `(Process_task pid=330, ip=${ip}) ${rest}`
+  const logs = [
+    line("10.0.0.1", "2022-07-18 10:00:41 - INFO - starting"),
+    line("10.0.0.1", "Epoch:   0%|          | 0/2 [00:00<?, ?it/s]"),
+    line("10.0.0.2", "Epoch:   0%|          | 0/2 [00:00<?, ?it/s]"),
+  ].join("\n")
+
+  const epochs = torchEvents(logs).filter((_) => _.type === "Epoch")
+  expect(epochs.map((_) => `${_.ip} ${_.timestamp}`)).toEqual([`10.0.0.1 ${new Date("2022-07-18 10:00:41").getTime()}`])
+})
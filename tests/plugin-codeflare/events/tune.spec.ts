@@ -0,0 +1,121 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import tuneEvents from "../../../plugins/plugin-codeflare/src/controller/events/tune"
+
+/** @return a Ray Tune status block, as of the given time, with the given trial rows */
+function status(time: string, rows: string[], best?: string) {
+  return [
+    "== Status ==",
+    `Current time: ${time} (running for 00:01:00.00)`,
+    "Memory usage on this node: 7.1/15.3 GiB",
+    ...(best ? [best] : []),
+    "Result logdir: /home/ray/ray_results/train_fn",
+    "Number of trials: 3/3 (1 PENDING, 2 RUNNING)",
+    "+---------------------+----------+-----------------+------+--------+------+------------------+----------+",
+    "| Trial name          | status   | loc             |   lr |   seed | iter |   total time (s) |     loss |",
+    "|---------------------+----------+-----------------+------+--------+------+------------------+----------|",
+    ...rows,
+    "+---------------------+----------+-----------------+------+--------+------+------------------+----------+",
+    "",
+  ]
+}
+
+const t1 = "2022-07-18 09:59:06"
+const t2 = "2022-07-18 10:04:06"
+
+const logs = [
+  "Trial train_fn_a1b2c_00002 completed before we knew what time it is",
+  ...status(t1, [
+    "| train_fn_a1b2c_00000 | RUNNING  | 10.0.0.1:123    | 0.01 |     40 |    1 |          10.1    | 0.9      |",
+    "| train_fn_a1b2c_00001 | RUNNING  | 10.0.0.2:123    | 0.1  |     41 |    1 |          10.2    | 0.7      |",
+    "| train_fn_a1b2c_00002 | PENDING  |                 | 1    |     42 |      |                  |          |",
+  ]),
+  ...status(t2, [
+    "| train_fn_a1b2c_00000 | TERMINATED | 10.0.0.1:123  | 0.01 |     40 |    5 |          50.1    | 0.5      |",
+    "| train_fn_a1b2c_00001 | ERROR    | 10.0.0.2:123    | 0.1  |     41 |    3 |          30.2    | 0.3      |",
+    "| train_fn_a1b2c_00002 | RUNNING  | 10.0.0.3:123    | 1    |     42 |    1 |          10.3    | 0.8      |",
+  ]),
+]
+
+test("tune trials from status tables", () => {
+  const events = tuneEvents(logs.join("\n"))
+
+  expect(events.map((_) => `${_.trial} ${_.status} ${_.state}`)).toEqual([
+    "train_fn_a1b2c_00000 TERMINATED Done",
+    "train_fn_a1b2c_00001 ERROR Error",
+    "train_fn_a1b2c_00002 RUNNING InProgress",
+  ])
+
+  const [first, second, third] = events
+  expect(first.hyperparameters).toEqual({ lr: "0.01", seed: "40" })
+  expect(first.metric).toEqual({ name: "loss", value: 0.5 })
+  expect(first.timestamp).toBe(new Date(t1).getTime())
+  expect(first.endTimestamp).toBe(new Date(t2).getTime())
+  expect(second.endTimestamp).toBe(new Date(t2).getTime())
+  expect(third.metric).toEqual({ name: "loss", value: 0.8 })
+  expect(third.endTimestamp).toBeUndefined()
+  expect(third.message).toBe("RUNNING lr=1, seed=42 → loss=0.8")
+})
+
+test("tune lines that precede any timestamp are skipped", () => {
+  const events = tuneEvents(logs.join("\n"))
+  expect(events.every((_) => !isNaN(_.timestamp) && _.timestamp >= new Date(t1).getTime())).toBe(true)
+  expect(events.find((_) => _.trial === "train_fn_a1b2c_00002")?.timestamp).toBe(new Date(t1).getTime())
+})
+
+test("tune best trial, absent guidance from Tune, minimizes loss", () => {
+  const events = tuneEvents(logs.join("\n"))
+  expect(events.filter((_) => _.highlight).map((_) => _.trial)).toEqual(["train_fn_a1b2c_00001"])
+})
+
+test("tune best trial, as Tune reports it", () => {
+  const best = "Current best trial: a1b2c_00000 with loss=0.5 and parameters={'lr': 0.01}"
+  const events = tuneEvents(
+    logs
+      .concat(
+        status(
+          "2022-07-18 10:05:06",
+          [
+            "| train_fn_a1b2c_00002 | RUNNING  | 10.0.0.3:123    | 1    |     42 |    2 |          20.3    | 0.1      |",
+          ],
+          best
+        )
+      )
+      .join("\n")
+  )
+
+  expect(events.filter((_) => _.highlight).map((_) => _.trial)).toEqual(["train_fn_a1b2c_00000"])
+})
+
+test("tune completed and errored trials", () => {
+  const events = tuneEvents(
+    [
+      "2022-07-18 09:59:06,123 INFO tune.py:747 -- Total run time: 60.00 seconds",
+      "Trial train_fn_a1b2c_00000 completed.",
+      "Trial train_fn_a1b2c_00001 errored after 3 iterations at 2022-07-18 10:00:06.",
+    ].join("\n")
+  )
+
+  expect(events.map((_) => `${_.trial} ${_.state}`)).toEqual([
+    "train_fn_a1b2c_00000 Done",
+    "train_fn_a1b2c_00001 Error",
+  ])
+  expect(events[0].endTimestamp).toBe(new Date("2022-07-18 09:59:06").getTime())
+  expect(events[1].endTimestamp).toBe(new Date("2022-07-18 10:00:06").getTime())
+})
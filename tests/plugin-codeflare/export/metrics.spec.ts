@@ -0,0 +1,45 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { toCSV } from "../../../plugins/plugin-codeflare/src/controller/export/metrics"
+
+test("csv export has a kind column, and the union of the record fields as its header", () => {
+  const gpu = { hostname: "10.0.0.1", timestamp: 1000, utilizationGPU: 50, metrics: { "Power.Draw": 70 } }
+  const memory = { hostname: "10.0.0.2", timestamp: 2000, usedMemory: 1024 }
+  const csv = toCSV({ gpu: [gpu], memory: [memory] })
+
+  expect(csv.split("\n")).toEqual([
+    "kind,hostname,timestamp,utilizationGPU,metrics.Power.Draw,usedMemory",
+    "gpu,10.0.0.1,1000,50,70,",
+    "memory,10.0.0.2,2000,,,1024",
+  ])
+})
+
+test("csv export quotes cells that contain commas, quotes, or newlines", () => {
+  const cpu = { hostname: 'node "a", the first', timestamp: 1000, note: "two\nlines" }
+  const csv = toCSV({ cpu: [cpu] })
+
+  expect(csv.split("\n").slice(1).join("\n")).toEqual('cpu,"node ""a"", the first",1000,"two\nlines"')
+})
+
+test("csv export leaves missing and NaN values empty", () => {
+  const cpu = { hostname: "10.0.0.1", timestamp: 1000, user: NaN }
+  const csv = toCSV({ cpu: [cpu] })
+
+  expect(csv.split("\n")).toEqual(["kind,hostname,timestamp,user", "cpu,10.0.0.1,1000,"])
+})
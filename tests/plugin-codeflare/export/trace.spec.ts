@@ -0,0 +1,87 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { State } from "../../../plugins/plugin-codeflare/src/controller/events/Event"
+import { toTrace } from "../../../plugins/plugin-codeflare/src/controller/export/trace"
+
+/** @return a torch-like event on the given worker */
+function event(ip: string, type: string, timestamp: number, endTimestamp?: number) {
+  return { name: type, ip, type, state: "Done" as const, message: type, timestamp, endTimestamp }
+}
+
+/** @return a kubernetes-like event about the given object */
+function kube(object: string, type: string, timestamp: number, state: State = "Done", hidden = false) {
+  return { name: object, object, type, state, message: type, timestamp, hidden }
+}
+
+const trace = toTrace([
+  {
+    source: "torch",
+    events: [
+      event("10.0.0.1", "Epoch", 1000, 3500),
+      event("10.0.0.2", "Epoch", 1200, 3000),
+      event("10.0.0.1", "Iteration", 1500, 1750),
+      event("10.0.0.1", "Epoch", 4000),
+    ],
+  },
+  {
+    source: "kubernetes",
+    events: [
+      kube("pod-1", "Pulled", 500),
+      kube("pod-1", "Pulling", 400, "Pending"),
+      kube("pod-1", "Hidden", 600, "Done", true),
+      kube("pod-1", "Untimed", 0),
+    ],
+  },
+])
+
+const metadata = trace.traceEvents.filter((_) => _.ph === "M")
+const events = trace.traceEvents.filter((_) => _.ph !== "M")
+
+test("trace has one process per ip or object", () => {
+  expect(metadata.filter((_) => _.name === "process_name").map((_) => `${_.pid} ${_.args && _.args.name}`)).toEqual([
+    "1 10.0.0.1",
+    "2 10.0.0.2",
+    "3 pod-1",
+  ])
+})
+
+test("trace has one thread per event type in each process", () => {
+  expect(
+    metadata.filter((_) => _.name === "thread_name").map((_) => `${_.pid} ${_.tid} ${_.args && _.args.name}`)
+  ).toEqual(["1 1 Epoch", "2 2 Epoch", "1 3 Iteration", "3 4 Pulled"])
+
+  expect(events.map((_) => `${_.name} ${_.pid} ${_.tid}`)).toEqual([
+    "Epoch 1 1",
+    "Epoch 2 2",
+    "Iteration 1 3",
+    "Epoch 1 1",
+    "Pulled 3 4",
+  ])
+})
+
+test("trace times are in microseconds, with complete events for spans and instant events otherwise", () => {
+  expect(events.map((_) => [_.ph, _.ts, _.dur])).toEqual([
+    ["X", 1000000, 2500000],
+    ["X", 1200000, 1800000],
+    ["X", 1500000, 250000],
+    ["i", 4000000, undefined],
+    ["i", 500000, undefined],
+  ])
+  expect(events.map((_) => _.cat)).toEqual(["torch", "torch", "torch", "torch", "kubernetes"])
+})
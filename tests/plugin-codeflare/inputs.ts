@@ -0,0 +1,47 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { join } from "path"
+import { readFile } from "fs/promises"
+import { Arguments } from "@kui-shell/core"
+
+import RunDirectory from "../../plugins/plugin-codeflare/src/controller/run/RunDirectory"
+
+/** @return the path to the given captured run, e.g. `inputs("2")` */
+export function inputs(directory: string) {
+  return join(__dirname, "dashboard/inputs", directory)
+}
+
+/** @return the content of the given file of the given captured run */
+export function readInput(directory: string, path: string) {
+  return readFile(join(inputs(directory), path)).then((_) => _.toString())
+}
+
+/** Just enough of a REPL to serve the `vfs fslice` reads of `RunDirectory` from the local filesystem */
+export const REPL = {
+  qexec: async (command: string) => {
+    const match = command.match(/^vfs fslice (.+) 0$/)
+    if (!match) {
+      throw new Error(`Unsupported command ${command}`)
+    }
+    return readFile(match[1].replace(/^(['"])(.*)\1$/, "$2")).then((_) => _.toString())
+  },
+} as unknown as Arguments["REPL"]
+
+/** @return a `RunDirectory` for the given captured run */
+export function run(directory: string) {
+  return new RunDirectory(inputs(directory), REPL)
+}
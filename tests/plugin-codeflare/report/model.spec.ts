@@ -0,0 +1,71 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { tmpdir } from "os"
+import { join } from "path"
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises"
+import { test, expect } from "@playwright/test"
+
+import { REPL, inputs, readInput } from "../inputs"
+import parse from "../../../plugins/plugin-codeflare/src/controller/report/model"
+
+test("report of a captured run", async () => {
+  const props = await parse(inputs("2"), REPL, 5)
+
+  expect(props.title).toBe("a8998f9b-a4f4-4edd-a440-0340b46ff2bd")
+  expect(props.application).toBeDefined()
+  expect(props.workers).toBeDefined()
+  expect(props.gpu).toHaveLength(286)
+  expect(props.vmstat.length).toBeGreaterThan(0)
+  expect(props.memory.length).toBeGreaterThan(0)
+  expect(props.spans.length).toBeGreaterThan(0)
+  expect(props.source?.language).toBe("python")
+
+  const lines = (await readInput("2", "logs/job.txt")).replace(/\n$/, "").split(/\n/)
+  expect(props.nLogLines).toBe(1202)
+  expect(props.logs).toHaveLength(5)
+  expect(props.logs[4]).toContain(lines[lines.length - 1].slice(-20))
+})
+
+test("report without the tail of the logs", async () => {
+  const props = await parse(inputs("2"), REPL, 0)
+  expect(props.logs).toEqual([])
+  expect(props.nLogLines).toBe(1202)
+})
+
+test("report of a run with only logs", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-report-"))
+  try {
+    await mkdir(join(dir, "logs"))
+    await writeFile(join(dir, "logs/job.txt"), "one\ntwo\nthree\n")
+
+    const props = await parse(dir + "/", REPL, 2)
+    expect(props).toMatchObject({
+      title: dir.slice(dir.lastIndexOf("/") + 1),
+      application: undefined,
+      workers: undefined,
+      gpu: [],
+      vmstat: [],
+      memory: [],
+      spans: [],
+      logs: ["two", "three"],
+      nLogLines: 3,
+      source: undefined,
+    })
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,67 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import slash from "slash"
+import { tmpdir } from "os"
+import { join, relative } from "path"
+import { mkdtemp, readFile, rm } from "fs/promises"
+import { test, expect } from "@playwright/test"
+
+import { inputs } from "../inputs"
+import startElectron from "../../common/startElectron"
+
+/** @return the content of the given file, or the empty string if it does not (yet) exist */
+function contentOf(filepath: string) {
+  return readFile(filepath)
+    .then((_) => _.toString())
+    .catch(() => "")
+}
+
+/**
+ * The test runner cannot render our components itself, as it rewrites
+ * any JSX it loads for its own component testing, so we render the
+ * report of a captured run in the app.
+ */
+test.slow()
+test("codeflare report of a captured run", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-report-"))
+  const output = join(dir, "run.html")
+  const { app, page } = await startElectron()
+
+  try {
+    await page.keyboard.type(`codeflare report ${slash(relative(process.cwd(), inputs("2")))} -o ${slash(output)}`)
+    await page.keyboard.press("Enter")
+
+    await expect.poll(() => contentOf(output), { timeout: 60000 }).toContain("</html>")
+    const html = await contentOf(output)
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain("<title>a8998f9b-a4f4-4edd-a440-0340b46ff2bd - CodeFlare Run Report</title>")
+    for (const section of ["Summary", "Workers", "Utilization", "Events", "Application Source"]) {
+      expect(html).toContain(`<h2>${section}</h2>`)
+    }
+    expect(html).toContain("Application Logs (last 200 of 1202 lines)")
+
+    // the utilization charts and the events timeline are rendered inline, as svg
+    expect(html).toContain('class="codeflare-chart-grid')
+    expect((html.match(/class="codeflare-chart-container/g) || []).length).toBeGreaterThan(1)
+    expect(html).toContain("<svg")
+    expect(html).not.toContain("codeflare-report-none")
+  } finally {
+    await app.close()
+    await rm(dir, { recursive: true, force: true })
+  }
+})
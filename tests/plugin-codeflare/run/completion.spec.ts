@@ -0,0 +1,136 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { tmpdir } from "os"
+import { join } from "path"
+import { mkdtemp, rm, writeFile } from "fs/promises"
+import { test, expect } from "@playwright/test"
+
+import { REPL, readInput } from "../inputs"
+import RunDirectory, { JobDefinition } from "../../../plugins/plugin-codeflare/src/controller/run/RunDirectory"
+import {
+  isComplete,
+  onCompletion,
+  stopOnCompletion,
+} from "../../../plugins/plugin-codeflare/src/controller/run/completion"
+
+/** Completion is polled every 5s, and followers are notified 1.5s after that */
+const pollMs = 5000
+const drainMs = 1500
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/** Record the job definition of the captured run, with the given status, in the given directory */
+async function setStatus(dir: string, status: string) {
+  const jobInfo = JSON.parse(await readInput("2", "ray-job-definition.json"))
+  await writeFile(join(dir, "ray-job-definition.json"), JSON.stringify(Object.assign(jobInfo, { status })))
+}
+
+/** @return a run, in a fresh directory, with the given status */
+async function runWithStatus(status: string) {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-completion-"))
+  await setStatus(dir, status)
+  return { dir, run: new RunDirectory(dir, REPL) }
+}
+
+const dirs: string[] = []
+
+test.afterAll(async () => {
+  await Promise.all(dirs.map((_) => rm(_, { recursive: true, force: true })))
+})
+
+test("terminal job statuses", () => {
+  const jobInfo = (status: string) => ({ status } as JobDefinition)
+
+  expect(isComplete(undefined)).toBe(false)
+  expect(isComplete(jobInfo("RUNNING"))).toBe(false)
+  expect(isComplete(jobInfo("PENDING"))).toBe(false)
+  expect(isComplete(jobInfo("SUCCEEDED"))).toBe(true)
+  expect(isComplete(jobInfo("failed"))).toBe(true)
+  expect(isComplete(jobInfo("STOPPED"))).toBe(true)
+})
+
+test("following a run that has already finished", async () => {
+  const { dir, run } = await runWithStatus("SUCCEEDED")
+  dirs.push(dir)
+
+  const statuses: string[] = []
+  const unsubscribe = onCompletion(run, (jobInfo) => statuses.push(jobInfo.status))
+
+  await sleep(drainMs + 500)
+  expect(statuses).toEqual(["SUCCEEDED"])
+  unsubscribe()
+})
+
+test("following a run that finishes while followed", async () => {
+  const { dir, run } = await runWithStatus("RUNNING")
+  dirs.push(dir)
+
+  const statuses: string[] = []
+  const unsubscribe = onCompletion(run, (jobInfo) => statuses.push(jobInfo.status))
+
+  await sleep(drainMs + 500)
+  expect(statuses).toEqual([])
+
+  await setStatus(dir, "FAILED")
+  await sleep(pollMs + drainMs)
+  expect(statuses).toEqual(["FAILED"])
+
+  // the watcher of the finished run is gone, though its first follower remains subscribed,
+  // so a new follower sees the run as it is now
+  await setStatus(dir, "RUNNING")
+  const unsubscribeAgain = onCompletion(run, (jobInfo) => statuses.push(`again ${jobInfo.status}`))
+  await sleep(drainMs + 500)
+  expect(statuses).toEqual(["FAILED"])
+  unsubscribeAgain()
+  unsubscribe()
+})
+
+test("unsubscribing before the followers are notified", async () => {
+  const { dir, run } = await runWithStatus("SUCCEEDED")
+  dirs.push(dir)
+
+  const statuses: string[] = []
+  const unsubscribe = onCompletion(run, (jobInfo) => statuses.push(jobInfo.status))
+  const stillSubscribed = onCompletion(run, (jobInfo) => statuses.push(`still ${jobInfo.status}`))
+  unsubscribe()
+
+  await sleep(drainMs + 500)
+  expect(statuses).toEqual(["still SUCCEEDED"])
+
+  // a follower that arrives after the run finished, and leaves straight away
+  onCompletion(run, (jobInfo) => statuses.push(`late ${jobInfo.status}`))()
+
+  await sleep(drainMs + 500)
+  expect(statuses).toEqual(["still SUCCEEDED"])
+  stillSubscribed()
+})
+
+test("a follower is stopped once, whether by completion or by unwatching", async () => {
+  const { dir, run } = await runWithStatus("SUCCEEDED")
+  dirs.push(dir)
+
+  let nStopped = 0
+  const unwatch = stopOnCompletion(run, () => nStopped++)
+
+  await sleep(drainMs + 500)
+  expect(nStopped).toBe(1)
+
+  unwatch()
+  expect(nStopped).toBe(1)
+})
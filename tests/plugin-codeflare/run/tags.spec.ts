@@ -0,0 +1,90 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { tmpdir } from "os"
+import { join } from "path"
+import { mkdtemp, rm, writeFile } from "fs/promises"
+import { test, expect } from "@playwright/test"
+
+import { REPL, run } from "../inputs"
+import { filterByNotes, notesSummary } from "../../../plugins/plugin-codeflare/src/controller/run/tags"
+import RunDirectory, { RunNotes, parseTag } from "../../../plugins/plugin-codeflare/src/controller/run/RunDirectory"
+
+/** @return a run with the given notes */
+function withNotes(notes: Partial<RunNotes>) {
+  return { notes: Object.assign({ notes: "", tags: {}, starred: false }, notes) }
+}
+
+/** @return the notes of a run whose notes.json has the given content */
+async function notesOf(content: string) {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-notes-"))
+  try {
+    await writeFile(join(dir, "notes.json"), content)
+    return await new RunDirectory(dir, REPL).notes()
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+test("tags are key=value", () => {
+  expect(parseTag("model=roberta-base")).toEqual(["model", "roberta-base"])
+  expect(parseTag("lr= 2e-5 ")).toEqual(["lr", "2e-5"])
+  expect(parseTag("model")).toBeUndefined()
+  expect(parseTag("=roberta-base")).toBeUndefined()
+})
+
+test("runs filtered by tags and stars", () => {
+  const runs = [
+    withNotes({ tags: { model: "roberta-base", lr: "2e-5" }, starred: true }),
+    withNotes({ tags: { model: "roberta-base" } }),
+    withNotes({}),
+  ]
+  const matches = (options: Parameters<typeof filterByNotes>[0]) =>
+    runs.map((_, idx) => idx).filter((idx) => filterByNotes(options)(runs[idx]))
+
+  expect(matches({})).toEqual([0, 1, 2])
+  expect(matches({ starred: true })).toEqual([0])
+  expect(matches({ tag: "model=roberta-base" })).toEqual([0, 1])
+  expect(matches({ tag: ["model=roberta-base", "lr=2e-5"] })).toEqual([0])
+  expect(matches({ tag: "model=bert", starred: true })).toEqual([])
+  expect(() => filterByNotes({ tag: "model" })).toThrow('tag "model" is not of the form key=value')
+})
+
+test("notes are summarized by their first line", () => {
+  expect(notesSummary("")).toBe("")
+  expect(notesSummary("  baseline\nwith the default learning rate")).toBe("baseline")
+  expect(notesSummary("x".repeat(50))).toBe("x".repeat(39) + "…")
+})
+
+test("a run without notes", async () => {
+  expect(await run("2").notes()).toEqual({ notes: "", tags: {}, starred: false })
+})
+
+test("notes of a run", async () => {
+  const notes = { notes: "baseline", tags: { model: "roberta-base" }, starred: true }
+  expect(await notesOf(JSON.stringify(notes))).toEqual(notes)
+})
+
+test("malformed notes fields are ignored", async () => {
+  const empty = { notes: "", tags: {}, starred: false }
+
+  expect(await notesOf(JSON.stringify({ notes: 3, tags: null, starred: "yes" }))).toEqual(empty)
+  expect(await notesOf(JSON.stringify({ tags: { model: "roberta-base", lr: 2e-5 } }))).toEqual(
+    Object.assign({}, empty, { tags: { model: "roberta-base" } })
+  )
+  expect(await notesOf("[]")).toEqual(empty)
+  expect(await notesOf("{ not json")).toEqual(empty)
+})
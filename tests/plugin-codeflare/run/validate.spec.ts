@@ -0,0 +1,111 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { tmpdir } from "os"
+import { dirname, join } from "path"
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises"
+import { test, expect } from "@playwright/test"
+
+import { REPL, readInput, run } from "../inputs"
+import RunDirectory, { ArtifactStatus } from "../../../plugins/plugin-codeflare/src/controller/run/RunDirectory"
+
+// the validators load these lazily, which the test runner does not support; so we load them up front
+import "../../../plugins/plugin-codeflare/src/controller/charts/samples"
+import "../../../plugins/plugin-codeflare/src/controller/charts/parsers/gpu"
+import "../../../plugins/plugin-codeflare/src/controller/charts/parsers/memory"
+import "../../../plugins/plugin-codeflare/src/controller/charts/parsers/vmstat"
+
+/** @return a run directory with the given files, by path relative to the directory */
+async function capture(files: Record<string, string>) {
+  const dir = await mkdtemp(join(tmpdir(), "codeflare-run-"))
+  await Promise.all(
+    Object.entries(files).map(async ([path, content]) => {
+      await mkdir(dirname(join(dir, path)), { recursive: true })
+      await writeFile(join(dir, path), content)
+    })
+  )
+  return dir
+}
+
+/** @return the status of each artifact, by path, e.g. `{ "logs/job.txt": "ok" }` */
+function statusByPath(statuses: ArtifactStatus[]) {
+  return statuses.reduce((M, _) => Object.assign(M, { [_.path]: _.status }), {} as Record<string, string>)
+}
+
+let dirs: string[] = []
+test.afterEach(async () => {
+  await Promise.all(dirs.map((_) => rm(_, { recursive: true, force: true })))
+  dirs = []
+})
+
+test("captured runs are valid", async () => {
+  for (const dir of ["1", "2"]) {
+    const statuses = statusByPath(await run(dir).validate())
+    expect(statuses).toEqual({
+      "ray-job-definition.json": "ok",
+      "job.json": "ok",
+      "choices.json": "ok",
+      "source.py": "ok",
+      "notes.json": "missing",
+      "logs/job.txt": "ok",
+      "events/kubernetes.txt": "ok",
+      "resources/gpu.txt": "ok",
+      "resources/pod-vmstat.txt": "ok",
+      "resources/pod-memory.txt": "ok",
+      "resources/pod-stats.txt": "ok",
+      "resources/node-stats.txt": "ok",
+    })
+  }
+})
+
+test("missing, empty, and malformed artifacts", async () => {
+  const dir = await capture({
+    "ray-job-definition.json": JSON.stringify({ status: "SUCCEEDED", runtime_env: {} }),
+    "job.json": "{ not json",
+    "choices.json": "[]",
+    "notes.json": JSON.stringify({ tags: { model: 3 } }),
+    "logs/job.txt": "",
+    "events/kubernetes.txt": "no events here",
+    "resources/gpu.txt": await readInput("2", "resources/gpu.txt"),
+  })
+  dirs.push(dir)
+
+  const statuses = await new RunDirectory(dir, REPL).validate()
+  const byArtifact = statuses.reduce(
+    (M, _) => Object.assign(M, { [_.artifact]: _ }),
+    {} as Record<ArtifactStatus["artifact"], ArtifactStatus>
+  )
+
+  expect(byArtifact.jobDefinition).toMatchObject({ status: "malformed", required: true, message: "missing start_time" })
+  expect(byArtifact.job.status).toBe("malformed")
+  expect(byArtifact.choices).toMatchObject({ status: "malformed", message: "expected a JSON object" })
+  expect(byArtifact.notes).toMatchObject({ status: "malformed", message: "tags must map keys to string values" })
+  expect(byArtifact.logs).toMatchObject({ status: "empty", required: true })
+  expect(byArtifact.events).toMatchObject({ status: "malformed", message: "no Kubernetes events found" })
+  expect(byArtifact.gpu.status).toBe("ok")
+  expect(byArtifact.source).toMatchObject({ status: "missing", required: false })
+  expect(byArtifact.vmstat.status).toBe("missing")
+})
+
+test("malformed json artifacts read as undefined", async () => {
+  const dir = await capture({ "job.json": "{ not json" })
+  dirs.push(dir)
+
+  const r = new RunDirectory(dir, REPL)
+  expect(await r.job()).toBeUndefined()
+  expect(await r.jobDefinition()).toBeUndefined()
+  await expect(r.read("logs")).rejects.toThrow("This run has no job logs (logs/job.txt)")
+})
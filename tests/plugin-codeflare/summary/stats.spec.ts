@@ -0,0 +1,83 @@
+/*
+ * Copyright 2022 The Kubernetes Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from "@playwright/test"
+
+import { run } from "../inputs"
+import { Log as GpuLog } from "../../../plugins/plugin-codeflare/src/controller/charts/parsers/gpu"
+import stats, { idleGpuThreshold } from "../../../plugins/plugin-codeflare/src/controller/summary/stats"
+
+/** @return one sample of the given GPU */
+function gpu(hostname: string, timestamp: number, utilizationGPU: number, memoryUsed?: number): GpuLog {
+  return {
+    hostname,
+    timestamp,
+    gpuType: "Tesla V100-SXM2-16GB",
+    utilizationGPU,
+    utilizationMemory: utilizationGPU / 2,
+    totalMemory: 16384,
+    temperatureGPU: 40 + (timestamp % 7),
+    metrics: memoryUsed === undefined ? {} : { "Memory.Used": memoryUsed },
+    units: {},
+  }
+}
+
+test("stats of a captured run", async () => {
+  const r = run("2")
+  const { cluster, hosts } = stats(await r.gpu(), await r.vmstat())
+
+  expect(hosts.map((_) => _.host)).toEqual([
+    "mycluster-ray-head-type-kvqkk",
+    "mycluster-ray-worker-type-htgd6",
+    "mycluster-ray-worker-type-nwq8q",
+    "mycluster-ray-worker-type-vbblg",
+    "mycluster-ray-worker-type-vf2n9",
+  ])
+
+  // the head has no GPU
+  expect(hosts[0].gpu).toBeUndefined()
+  expect(hosts[0].cpu?.nSamples).toBe(73)
+
+  expect(cluster.gpu?.nSamples).toBe(286)
+  expect(cluster.gpu?.p50Utilization).toBe(0)
+  expect(cluster.gpu?.p95Utilization).toBe(94)
+  expect(cluster.gpu?.peakMemoryUtilization).toBe(41)
+  expect(cluster.gpu?.maxTemperature).toBe(66)
+  expect(cluster.gpu?.peakMemoryUsedBytes).toBeUndefined()
+  expect(cluster.cpu?.nSamples).toBe(365)
+
+  // the cluster-wide peaks are the peaks of the hosts
+  expect(cluster.gpu?.maxTemperature).toBe(Math.max(...hosts.map((_) => (_.gpu ? _.gpu.maxTemperature : 0))))
+})
+
+test("stats idle time counts only idle samples, and not gaps in the capture", () => {
+  const minute = 60 * 1000
+  const logs = [0, 1, 2, 3, 30, 31].map((t, idx) => gpu("host-a", t * minute, idx < 2 ? 0 : idleGpuThreshold + 50))
+
+  // 2 idle minutes; the 27 minute gap after the 4th sample is clamped to 2 minutes, but is not idle
+  expect(stats(logs, []).cluster.gpu?.idleMinutes).toBe(2)
+})
+
+test("stats of a long capture", () => {
+  const N = 200 * 1000
+  const logs = Array.from({ length: N }, (_, idx) => gpu(`host-${idx % 4}`, idx * 1000, idx % 100, idx % 1000))
+  const { cluster } = stats(logs, [])
+
+  expect(cluster.gpu?.nSamples).toBe(N)
+  expect(cluster.gpu?.peakMemoryUtilization).toBe(49.5)
+  expect(cluster.gpu?.peakMemoryUsedBytes).toBe(999 * 1024 * 1024)
+  expect(cluster.gpu?.maxTemperature).toBe(46)
+})